@@ -0,0 +1,84 @@
+import type { AnyExpression, ParserState } from "json-to-sql-parser";
+import { Dialect, ExpressionTypeMap, parseExpression } from "json-to-sql-parser";
+import { createParserConfig, type FieldTypeDefinition, mapFieldType, mapFieldTypeToSQL } from "./parser-config";
+import type { DataModel } from "./schemas";
+
+export type TypeConversion = { from: FieldTypeDefinition; to: FieldTypeDefinition; using?: AnyExpression };
+
+function generatePostgresCast(column: string, from: FieldTypeDefinition, to: FieldTypeDefinition): string {
+	const targetType = mapFieldTypeToSQL(to, Dialect.POSTGRESQL);
+	const [fromBase, toBase] = [mapFieldType(from.type), mapFieldType(to.type)];
+
+	if (from.type === "binary") return `convert_from(${column}, 'UTF8')::${targetType}`;
+	if (to.type === "binary") return `convert_to(${column}::TEXT, 'UTF8')`;
+	// Enums only cast from and to text
+	if (from.enum !== undefined && to.type !== "string") return `${column}::TEXT::${targetType}`;
+	if (from.type === "array" && to.type === "object") return `to_jsonb(${column})`;
+	if (from.type === "object" && to.type === "array") return `ARRAY(SELECT jsonb_array_elements_text(${column}))::${targetType}`;
+	// Times are taken on the day of the epoch, and intervals are converted from and to seconds
+	if (from.type === "time" && toBase === "datetime") return `('1970-01-01'::DATE + ${column})::${targetType}`;
+	if (from.type === "interval" && toBase === "number") return `EXTRACT(EPOCH FROM ${column})::${targetType}`;
+	if (fromBase === "number" && to.type === "interval") return `${column} * INTERVAL '1 second'`;
+	if (from.type === "object" && toBase === "string")
+		return to.type === "string" ? `${column} #>> '{}'` : `(${column} #>> '{}')::${targetType}`;
+	if (fromBase === "string" || toBase === "string") return `${column}::${targetType}`;
+	if (fromBase === "boolean" && toBase === "number") return `${column}::INTEGER::${targetType}`;
+	if (fromBase === "number" && toBase === "boolean") return `${column} <> 0`;
+	if (fromBase === toBase || (fromBase === "date" && toBase === "datetime") || (fromBase === "datetime" && toBase === "date"))
+		return `${column}::${targetType}`;
+
+	// Remaining pairs have no direct cast, their text representation is parsed instead
+	return `${column}::TEXT::${targetType}`;
+}
+
+// SQLite only converts values between storage classes, numbers (REAL), integers and booleans (INTEGER) and binaries (BLOB)
+function generateSQLiteCast(column: string, from: FieldTypeDefinition, to: FieldTypeDefinition, dialect: Dialect): string {
+	const [fromBase, toBase] = [mapFieldType(from.type), mapFieldType(to.type)];
+	const targetType = mapFieldTypeToSQL(to, dialect);
+
+	if (fromBase === "boolean" && toBase === "string") return `CASE ${column} WHEN 1 THEN 'true' WHEN 0 THEN 'false' END`;
+	if (fromBase === "string" && toBase === "boolean") return `lower(${column}) IN ('true', 't', 'yes', 'y', 'on', '1')`;
+	if (fromBase === "number" && toBase === "boolean") return `${column} <> 0`;
+	if (fromBase === "date" && toBase === "datetime") return `datetime(${column})`;
+	if (fromBase === "datetime" && toBase === "date") return `date(${column})`;
+	if (targetType === "JSON") return `json(${column})`;
+	if (mapFieldTypeToSQL(from, dialect) !== targetType) return `CAST(${column} AS ${targetType})`;
+
+	// Strings, uuids, objects and dates share the same representation
+	return column;
+}
+
+/**
+ * Generate the SQL converting a column value to a new field type, from the field's `migrate.using` expression when
+ * set, which is compiled against the column's previous type
+ */
+export function generateConversionSQL(
+	tableName: string,
+	fieldName: string,
+	conversion: TypeConversion,
+	model: DataModel,
+	dialect: Dialect,
+): string {
+	if (conversion.using !== undefined) {
+		const sourceModel = {
+			...model,
+			tables: model.tables.map((table) =>
+				table.name === tableName
+					? { ...table, fields: table.fields.map((f) => (f.name === fieldName ? { ...f, ...conversion.from } : f)) }
+					: table,
+			),
+		};
+		const state: ParserState = {
+			config: createParserConfig(sourceModel, dialect),
+			rootTable: tableName,
+			expressions: new ExpressionTypeMap(),
+		};
+		return `(${parseExpression(conversion.using, state)})`;
+	}
+
+	const column = `"${fieldName}"`;
+
+	return dialect === Dialect.POSTGRESQL
+		? generatePostgresCast(column, conversion.from, conversion.to)
+		: generateSQLiteCast(column, conversion.from, conversion.to, dialect);
+}
@@ -0,0 +1,181 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { Dialect } from "json-to-sql-parser";
+import { summarizeDatabaseDiff } from "./diff-summary";
+import { createFileSnapshotStore } from "./file-snapshot-store";
+import { generateDatabaseDiff, generateNextMigration, type NextMigration } from "./index";
+import { assertSafeChanges } from "./safety";
+import { type DataModel, dataModelSchema } from "./schemas";
+import { getLatestSnapshot } from "./snapshot-store";
+import { validateDataModel } from "./validation";
+
+export type CliIO = {
+	cwd?: string;
+	stdout?: (line: string) => void;
+	stderr?: (line: string) => void;
+	// Migrations are named after the time they are generated at
+	now?: () => Date;
+};
+
+const dialects: Record<string, Dialect> = {
+	postgresql: Dialect.POSTGRESQL,
+	sqlite: Dialect.SQLITE_MINIMAL,
+	"sqlite-extensions": Dialect.SQLITE_EXTENSIONS,
+};
+
+const UP_MIGRATION_SUFFIX = ".up.sql";
+const NON_DIGITS = /\D/g;
+const NON_NAME_CHARACTERS = /[^a-z0-9]+/g;
+
+const usage = `Usage: json-to-sql-migration <command> [options]
+
+Commands:
+  init <model.json>            Write the initial migration and snapshot the model
+  diff <old.json> <new.json>   Summarize the changes between two models
+  generate <model.json>        Write a migration from the snapshot to the model and snapshot it
+  validate <model.json>        Check a model for errors
+  status <model.json>          List the migrations and the changes not migrated yet
+
+Options:
+  --dialect <name>        postgresql (default), sqlite or sqlite-extensions
+  --dir <path>            Migrations directory, defaults to "migrations"
+  --name <name>           Name of the generated migration
+  --allow-destructive     Allow every unsafe change
+  --acknowledge <id>      Allow an unsafe change by its id, can be repeated
+  --detect-renames        Match removed and added items of the same shape as renames`;
+
+class CliError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CliError";
+	}
+}
+
+function readModel(path: string): DataModel {
+	if (!existsSync(path)) throw new CliError(`${path}: file not found`);
+
+	let json: unknown;
+	try {
+		json = JSON.parse(readFileSync(path, "utf8"));
+	} catch (parseError) {
+		throw new CliError(`${path}: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+	}
+
+	const result = dataModelSchema.safeParse(json);
+	if (!result.success) {
+		const issues = result.error.issues.map((issue) => `  ${issue.path.join(".") || "<root>"}: ${issue.message}`);
+		throw new CliError(`${path}: invalid data model\n${issues.join("\n")}`);
+	}
+
+	return result.data;
+}
+
+function describeMigration({ snapshot, diff }: NextMigration, directory: string): string[] {
+	return [...summarizeDatabaseDiff(diff), `Wrote migration "${snapshot.id}" to ${directory}`];
+}
+
+/**
+ * Run the command line interface, returning its exit code: 1 on invalid models, unacknowledged unsafe changes or
+ * invalid usage
+ */
+export async function runCli(args: string[], io: CliIO = {}): Promise<number> {
+	const stdout = io.stdout ?? ((line: string) => console.log(line));
+	const stderr = io.stderr ?? ((line: string) => console.error(line));
+	const cwd = io.cwd ?? process.cwd();
+
+	try {
+		const { positionals, values } = parseArgs({
+			args,
+			allowPositionals: true,
+			options: {
+				dialect: { type: "string" },
+				dir: { type: "string" },
+				name: { type: "string" },
+				"allow-destructive": { type: "boolean", default: false },
+				acknowledge: { type: "string", multiple: true, default: [] },
+				"detect-renames": { type: "boolean", default: false },
+				help: { type: "boolean", short: "h", default: false },
+			},
+		});
+
+		const [command, ...paths] = positionals;
+		if (values.help || command === undefined) {
+			stdout(usage);
+			return values.help ? 0 : 1;
+		}
+
+		const dialectName = values.dialect ?? "postgresql";
+		const dialect = dialects[dialectName];
+		if (dialect === undefined) throw new CliError(`Unknown dialect "${dialectName}"\n\n${usage}`);
+
+		const [firstPath, secondPath] = paths.map((path) => resolve(cwd, path));
+		if (firstPath === undefined) throw new CliError(`Missing model file\n\n${usage}`);
+
+		const directory = resolve(cwd, values.dir ?? "migrations");
+		const store = createFileSnapshotStore(directory);
+		const options = {
+			allowDestructive: values["allow-destructive"],
+			acknowledge: values.acknowledge,
+			detectRenames: values["detect-renames"],
+		};
+		const timestamp = (io.now?.() ?? new Date()).toISOString().replace(NON_DIGITS, "").slice(0, 14);
+		const migrationId = (name: string) => `${timestamp}_${name.toLowerCase().replace(NON_NAME_CHARACTERS, "_")}`;
+
+		switch (command) {
+			case "validate": {
+				const issues = validateDataModel(readModel(firstPath), dialect);
+				for (const { severity, path, message } of issues) stdout(`${severity}: ${path}: ${message}`);
+				if (issues.length === 0) stdout("The model is valid");
+				return issues.some((issue) => issue.severity === "error") ? 1 : 0;
+			}
+
+			case "diff": {
+				if (secondPath === undefined) throw new CliError(`Missing new model file\n\n${usage}`);
+
+				const diff = generateDatabaseDiff(readModel(firstPath), readModel(secondPath), options);
+				const summary = summarizeDatabaseDiff(diff);
+				for (const line of summary.length > 0 ? summary : ["No changes"]) stdout(line);
+				assertSafeChanges(diff.unsafeChanges, options);
+				return 0;
+			}
+
+			case "init":
+			case "generate": {
+				const initialized = getLatestSnapshot(await store.list()) !== undefined;
+				if (command === "init" && initialized) throw new CliError(`${directory} already has snapshots, use generate instead`);
+				if (command === "generate" && !initialized) throw new CliError(`${directory} has no snapshots, use init first`);
+
+				const id = migrationId(values.name ?? (command === "init" ? "initial" : "migration"));
+				const result = await generateNextMigration(store, id, readModel(firstPath), dialect, options);
+				for (const line of result ? describeMigration(result, directory) : ["No changes"]) stdout(line);
+				return 0;
+			}
+
+			case "status": {
+				const migrations = existsSync(directory)
+					? readdirSync(directory)
+							.filter((file) => file.endsWith(UP_MIGRATION_SUFFIX))
+							.map((file) => file.slice(0, -UP_MIGRATION_SUFFIX.length))
+							.sort()
+					: [];
+				stdout(migrations.length > 0 ? `Migrations:\n${migrations.map((id) => `  ${id}`).join("\n")}` : "No migrations");
+				const latest = getLatestSnapshot(await store.list());
+				if (latest === undefined) {
+					stdout("No snapshots, use init first");
+					return 0;
+				}
+
+				const summary = summarizeDatabaseDiff(generateDatabaseDiff(latest.model, readModel(firstPath), options));
+				stdout(summary.length > 0 ? `Changes not migrated yet:\n${summary.map((line) => `  ${line}`).join("\n")}` : "Up to date");
+				return 0;
+			}
+
+			default:
+				throw new CliError(`Unknown command "${command}"\n\n${usage}`);
+		}
+	} catch (error) {
+		stderr(error instanceof Error ? error.message : String(error));
+		return 1;
+	}
+}
@@ -0,0 +1,49 @@
+import type { DataModel } from "./schemas";
+
+type Table = DataModel["tables"][number];
+type Index = NonNullable<Table["indexes"]>[number];
+type Check = NonNullable<Table["checks"]>[number];
+
+export type TableForeignKey = NonNullable<Table["foreignKeys"]>[number];
+
+export type TableConstraint =
+	| { kind: "primaryKey"; name: string; columns: string[] }
+	| { kind: "foreignKey"; name: string; foreignKey: TableForeignKey }
+	| { kind: "check"; name: string; condition: Check["condition"] };
+
+const fieldConstraintPrefixes = { foreignKey: "fk", unique: "uq", check: "ck" } as const;
+
+type FieldConstraintKind = keyof typeof fieldConstraintPrefixes;
+
+export function getIndexName(tableName: string, index: Index): string {
+	return index.name ?? `idx_${tableName}_${index.columns.join("_")}`;
+}
+
+// Constraints declared on a field are named "<prefix>_<table>_<field>"
+export function getFieldConstraintName(kind: FieldConstraintKind, tableName: string, fieldName: string): string {
+	return `${fieldConstraintPrefixes[kind]}_${tableName}_${fieldName}`;
+}
+
+export function getForeignKeyName(tableName: string, foreignKey: TableForeignKey): string {
+	return foreignKey.name ?? `fk_${tableName}_${foreignKey.columns.join("_")}`;
+}
+
+// A table-level primary key takes precedence over the fields marked as primary keys
+export function getPrimaryKey(table: Table): string[] {
+	return table.primaryKey ?? table.fields.filter((field) => field.primaryKey).map((field) => field.name);
+}
+
+// PostgreSQL names primary keys "<table>_pkey" whether they are declared inline or at the table level
+export function getTableConstraints(table: Table): TableConstraint[] {
+	const primaryKey = getPrimaryKey(table);
+
+	return [
+		...(primaryKey.length > 0 ? [{ kind: "primaryKey" as const, name: `${table.name}_pkey`, columns: primaryKey }] : []),
+		...(table.foreignKeys ?? []).map((foreignKey) => ({
+			kind: "foreignKey" as const,
+			name: getForeignKeyName(table.name, foreignKey),
+			foreignKey,
+		})),
+		...(table.checks ?? []).map(({ name, condition }) => ({ kind: "check" as const, name, condition })),
+	];
+}
@@ -0,0 +1,88 @@
+import type { DataModel } from "./schemas";
+
+type Table = DataModel["tables"][number];
+
+export type TableDependencies<T extends Table> = { tables: T[]; cycles: string[][] };
+
+function getDependencies(tables: Table[]): Map<string, Set<string>> {
+	const names = new Set(tables.map((table) => table.name));
+
+	return new Map(
+		tables.map((table) => [
+			table.name,
+			new Set(
+				[
+					...table.fields.flatMap(({ foreignKey }) => (foreignKey ? [foreignKey.table] : [])),
+					...(table.foreignKeys ?? []).map(({ references }) => references.table),
+				].filter((name) => name !== table.name && names.has(name)),
+			),
+		]),
+	);
+}
+
+// Tarjan's strongly connected components, keeping only the components that form a cycle
+function findCycles(dependencies: Map<string, Set<string>>): string[][] {
+	const indexes = new Map<string, number>();
+	const lowLinks = new Map<string, number>();
+	const stack: string[] = [];
+	const cycles: string[][] = [];
+
+	const visit = (name: string) => {
+		indexes.set(name, indexes.size);
+		lowLinks.set(name, indexes.get(name)!);
+		stack.push(name);
+
+		for (const dependency of dependencies.get(name) ?? []) {
+			if (!indexes.has(dependency)) {
+				visit(dependency);
+				lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(dependency)!));
+			} else if (stack.includes(dependency)) {
+				lowLinks.set(name, Math.min(lowLinks.get(name)!, indexes.get(dependency)!));
+			}
+		}
+
+		if (lowLinks.get(name) !== indexes.get(name)) return;
+
+		const component = stack.splice(stack.indexOf(name));
+		if (component.length > 1) cycles.push(component);
+	};
+
+	for (const name of dependencies.keys()) if (!indexes.has(name)) visit(name);
+
+	return cycles;
+}
+
+/**
+ * Order tables so that every table comes after the tables its foreign keys reference. Tables involved in a
+ * reference cycle cannot be fully ordered; they are kept in their original order and reported in `cycles`.
+ */
+export function sortTablesByDependencies<T extends Table>(tables: T[]): TableDependencies<T> {
+	const dependencies = getDependencies(tables);
+	const cycles = findCycles(dependencies);
+	const cyclicNames = new Set(cycles.flat());
+	const sortedNames = new Set<string>();
+	const sorted: T[] = [];
+	const remaining = [...tables];
+
+	while (remaining.length > 0) {
+		const index = remaining.findIndex((table) =>
+			[...(dependencies.get(table.name) ?? [])].every((name) => sortedNames.has(name)),
+		);
+		// When every remaining table waits on another, break the cycle at its first table
+		const [table] = remaining.splice(
+			index === -1
+				? Math.max(
+						remaining.findIndex((t) => cyclicNames.has(t.name)),
+						0,
+					)
+				: index,
+			1,
+		);
+		if (!table) break;
+
+		sorted.push(table);
+		sortedNames.add(table.name);
+	}
+
+	return { tables: sorted, cycles };
+}
@@ -0,0 +1,68 @@
+import { getIndexName } from "./constraints";
+import type { DatabaseDiff } from "./index";
+import { formatFieldType } from "./parser-config";
+
+/**
+ * Describe a database diff as one line per change: `+` for additions, `-` for removals, `~` for modifications and `!`
+ * for unsafe changes
+ */
+export function summarizeDatabaseDiff(diff: DatabaseDiff): string[] {
+	const lines: string[] = [];
+	const add = (indent: number, line: string) => lines.push(`${"  ".repeat(indent)}${line}`);
+
+	for (const table of diff.tables.added) add(0, `+ table "${table.name}"`);
+	for (const table of diff.tables.removed) add(0, `- table "${table.name}"`);
+	for (const { from, to } of diff.tables.renamed) add(0, `~ table "${from.name}" renamed to "${to.name}"`);
+
+	for (const modification of diff.tables.modified) {
+		const changes: string[] = [
+			...modification.fieldsAdded.map((field) => `+ field "${field.name}" ${formatFieldType(field)}`),
+			...modification.fieldsRemoved.map((field) => `- field "${field.name}"`),
+			...modification.fieldsRenamed.map(({ from, to }) => `~ field "${from.name}" renamed to "${to.name}"`),
+			...modification.fieldsModified.map(({ field, changes: fieldChanges }) => {
+				const { type, ...others } = fieldChanges;
+				const details = [
+					...(type ? [`type ${formatFieldType(type.from)} -> ${formatFieldType(type.to)}`] : []),
+					...Object.keys(others),
+				];
+				return `~ field "${field.name}" (${details.join(", ")})`;
+			}),
+			...modification.constraintsAdded.map((constraint) => `+ constraint "${constraint.name}"`),
+			...modification.constraintsRemoved.map((constraint) => `- constraint "${constraint.name}"`),
+			...modification.indexesAdded.map((index) => `+ index "${getIndexName(modification.tableName, index)}"`),
+			...modification.indexesRemoved.map((index) => `- index "${getIndexName(modification.tableName, index)}"`),
+		];
+		if (changes.length === 0) continue;
+
+		add(0, `~ table "${modification.tableName}"`);
+		for (const change of changes) add(1, change);
+	}
+
+	for (const added of diff.enums.added) add(0, `+ enum "${added.name}" (${added.values.join(", ")})`);
+	for (const removed of diff.enums.removed) add(0, `- enum "${removed.name}"`);
+	for (const modification of diff.enums.modified) {
+		add(0, `~ enum "${modification.name}"`);
+		for (const value of modification.valuesAdded) add(1, `+ value "${value}"`);
+		for (const value of modification.valuesRemoved) add(1, `- value "${value}"`);
+		for (const { from, to } of modification.valuesRenamed) add(1, `~ value "${from}" renamed to "${to}"`);
+	}
+
+	for (const table of diff.accessControl.tables) {
+		const changes = [
+			...(table.rowLevelSecurity ? [`~ row level security ${table.rowLevelSecurity.to ? "enabled" : "disabled"}`] : []),
+			...(table.forceRowLevelSecurity
+				? [`~ row level security ${table.forceRowLevelSecurity.to ? "forced" : "not forced"}`]
+				: []),
+			...table.policiesRemoved.map((policy) => `- policy "${policy.name}"`),
+			...table.policiesAdded.map((policy) => `+ policy "${policy.name}"`),
+		];
+		if (changes.length === 0 || diff.tables.added.some((added) => added.name === table.tableName)) continue;
+
+		add(0, `~ access control of "${table.tableName}"`);
+		for (const change of changes) add(1, change);
+	}
+
+	for (const change of diff.unsafeChanges) add(0, `! ${change.id}: ${change.message}`);
+
+	return lines;
+}
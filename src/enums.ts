@@ -0,0 +1,107 @@
+import type { DataModel } from "./schemas";
+
+type Field = DataModel["tables"][number]["fields"][number];
+
+export type Enum = NonNullable<DataModel["enums"]>[number];
+
+export type EnumValueRename = { from: string; to: string };
+
+export type EnumModification = {
+	name: string;
+	from: string[];
+	to: string[];
+	valuesAdded: string[];
+	valuesRemoved: string[];
+	valuesRenamed: EnumValueRename[];
+	// Fields of the previous model using the enum, whose values are converted when it is recreated
+	fields: Array<{ table: string; field: Field }>;
+};
+
+export type EnumDiff = { added: Enum[]; removed: Enum[]; modified: EnumModification[] };
+
+// Inline values take precedence over the model-level enum a field references
+export function getEnumValues(field: Pick<Field, "values" | "enum">, model: DataModel): string[] | undefined {
+	if (field.values || field.enum === undefined) return field.values;
+	return model.enums?.find((e) => e.name === field.enum)?.values;
+}
+
+export function getEnumFields(model: DataModel, enumName: string): Array<{ table: string; field: Field }> {
+	return model.tables.flatMap((table) =>
+		table.fields
+			.filter((field) => field.type === "enum" && field.enum === enumName)
+			.map((field) => ({ table: table.name, field })),
+	);
+}
+
+// Value renames declared in `renamedValues` are only kept when the previous value exists and the new one does not
+export function resolveEnumValueRenames(oldModel: DataModel, newModel: DataModel): Map<string, EnumValueRename[]> {
+	const renames = new Map<string, EnumValueRename[]>();
+
+	for (const newEnum of newModel.enums ?? []) {
+		const oldEnum = oldModel.enums?.find((e) => e.name === newEnum.name);
+		if (!oldEnum) continue;
+
+		const valueRenames = Object.entries(newEnum.renamedValues ?? {})
+			.filter(([to, from]) => oldEnum.values.includes(from) && !oldEnum.values.includes(to) && newEnum.values.includes(to))
+			.map(([to, from]) => ({ from, to }));
+		renames.set(newEnum.name, valueRenames);
+	}
+
+	return renames;
+}
+
+/**
+ * Values are matched by name or through their renames. The recreation of an enum is required when values are removed
+ * or when the remaining values change order, as PostgreSQL can only append, insert and rename values in place.
+ */
+export function generateEnumDiff(oldModel: DataModel, newModel: DataModel, renames: Map<string, EnumValueRename[]>): EnumDiff {
+	const oldEnums = oldModel.enums ?? [];
+	const newEnums = newModel.enums ?? [];
+
+	const added = newEnums.filter((newEnum) => !oldEnums.some((e) => e.name === newEnum.name));
+	const removed = oldEnums.filter((oldEnum) => !newEnums.some((e) => e.name === oldEnum.name));
+	const modified: EnumModification[] = [];
+
+	for (const newEnum of newEnums) {
+		const oldEnum = oldEnums.find((e) => e.name === newEnum.name);
+		if (!oldEnum) continue;
+
+		const valuesRenamed = renames.get(newEnum.name) ?? [];
+		const renamedValues = oldEnum.values.map((value) => valuesRenamed.find((rename) => rename.from === value)?.to ?? value);
+		const valuesAdded = newEnum.values.filter((value) => !renamedValues.includes(value));
+		const valuesRemoved = renamedValues.filter((value) => !newEnum.values.includes(value));
+
+		if (
+			valuesAdded.length > 0 ||
+			valuesRemoved.length > 0 ||
+			valuesRenamed.length > 0 ||
+			!isSameOrder(renamedValues, newEnum.values)
+		) {
+			modified.push({
+				name: newEnum.name,
+				from: oldEnum.values,
+				to: newEnum.values,
+				valuesAdded,
+				valuesRemoved,
+				valuesRenamed,
+				fields: getEnumFields(oldModel, oldEnum.name),
+			});
+		}
+	}
+
+	return { added, removed, modified };
+}
+
+function isSameOrder(oldValues: string[], newValues: string[]): boolean {
+	const kept = oldValues.filter((value) => newValues.includes(value));
+	const keptInNewOrder = newValues.filter((value) => kept.includes(value));
+	return kept.every((value, index) => keptInNewOrder[index] === value);
+}
+
+// Removing or reordering values cannot be done in place
+export function requiresEnumRecreation(modification: EnumModification): boolean {
+	const renamedValues = modification.from.map(
+		(value) => modification.valuesRenamed.find((rename) => rename.from === value)?.to ?? value,
+	);
+	return modification.valuesRemoved.length > 0 || !isSameOrder(renamedValues, modification.to);
+}
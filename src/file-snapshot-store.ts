@@ -0,0 +1,36 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { modelSnapshotSchema, type SnapshotStore } from "./snapshot-store";
+
+const SNAPSHOT_SUFFIX = ".snapshot.json";
+
+// A crash while writing leaves the previous file in place rather than a truncated one
+function writeFileAtomically(path: string, content: string): void {
+	const temporaryPath = `${path}.${process.pid}.tmp`;
+	writeFileSync(temporaryPath, content);
+	renameSync(temporaryPath, path);
+}
+
+/**
+ * Store snapshots as `<id>.snapshot.json` files in a migrations directory, next to the `<id>.up.sql` and `<id>.down.sql`
+ * files of their migration. The snapshot is written last, so that it never refers to a migration that was not written.
+ */
+export function createFileSnapshotStore(directory: string): SnapshotStore {
+	return {
+		list: () => {
+			if (!existsSync(directory)) return Promise.resolve([]);
+
+			const files = readdirSync(directory).filter((file) => file.endsWith(SNAPSHOT_SUFFIX));
+			return Promise.resolve(
+				files.sort().map((file) => modelSnapshotSchema.parse(JSON.parse(readFileSync(join(directory, file), "utf8")))),
+			);
+		},
+		save: (snapshot, migration) => {
+			mkdirSync(directory, { recursive: true });
+			writeFileAtomically(join(directory, `${snapshot.id}.up.sql`), `${migration.up}\n`);
+			writeFileAtomically(join(directory, `${snapshot.id}.down.sql`), `${migration.down}\n`);
+			writeFileAtomically(join(directory, `${snapshot.id}${SNAPSHOT_SUFFIX}`), `${JSON.stringify(snapshot, null, 2)}\n`);
+			return Promise.resolve();
+		},
+	};
+}
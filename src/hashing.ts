@@ -0,0 +1,86 @@
+import type { DataModel } from "./schemas";
+
+type HashState = [number, number, number, number, number, number, number, number];
+
+// First 32 bits of the fractional parts of the cube roots of the first 64 primes
+const ROUND_CONSTANTS = new Uint32Array([
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01,
+	0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc,
+	0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+	0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+	0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08,
+	0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+	0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// First 32 bits of the fractional parts of the square roots of the first 8 primes
+const INITIAL_HASH: HashState = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+function rotateRight(value: number, bits: number): number {
+	return (value >>> bits) | (value << (32 - bits));
+}
+
+/**
+ * Hash the UTF-8 bytes of a string with SHA-256, as a hexadecimal digest. Implemented here rather than with
+ * `node:crypto`, which is not available in browsers and edge runtimes, nor with Web Crypto, which is asynchronous.
+ */
+export function sha256(value: string): string {
+	const bytes = new TextEncoder().encode(value);
+	// The message is followed by a 1 bit, padded with zeros and ended by its length in bits, over whole 64 byte blocks
+	const length = Math.ceil((bytes.length + 9) / 64) * 64;
+	const message = new Uint8Array(length);
+	message.set(bytes);
+	message[bytes.length] = 0x80;
+	const view = new DataView(message.buffer);
+	view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+	view.setUint32(length - 4, (bytes.length * 8) >>> 0);
+
+	let hash = INITIAL_HASH;
+	const words = new Uint32Array(64);
+	for (let offset = 0; offset < length; offset += 64) {
+		for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+		for (let i = 16; i < 64; i++) {
+			const [w2, w7, w15, w16] = [words[i - 2] ?? 0, words[i - 7] ?? 0, words[i - 15] ?? 0, words[i - 16] ?? 0];
+			const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3);
+			const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10);
+			words[i] = w16 + s0 + w7 + s1;
+		}
+
+		let [a, b, c, d, e, f, g, h] = hash;
+		for (let i = 0; i < 64; i++) {
+			const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+			const t1 = (h + s1 + ((e & f) ^ (~e & g)) + (ROUND_CONSTANTS[i] ?? 0) + (words[i] ?? 0)) >>> 0;
+			const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+			const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+			[h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) >>> 0, c, b, a, (t1 + t2) >>> 0];
+		}
+		const [h0, h1, h2, h3, h4, h5, h6, h7] = hash;
+		hash = [
+			(h0 + a) >>> 0,
+			(h1 + b) >>> 0,
+			(h2 + c) >>> 0,
+			(h3 + d) >>> 0,
+			(h4 + e) >>> 0,
+			(h5 + f) >>> 0,
+			(h6 + g) >>> 0,
+			(h7 + h) >>> 0,
+		];
+	}
+
+	return hash.map((word) => word.toString(16).padStart(8, "0")).join("");
+}
+
+// Keys are sorted so that equal models hash the same regardless of how they were built
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+	if (typeof value !== "object" || value === null) return JSON.stringify(value) ?? "null";
+
+	const entries = Object.entries(value)
+		.filter(([, entry]) => entry !== undefined)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+}
+
+export function hashDataModel(model: DataModel): string {
+	return sha256(stableStringify(model));
+}
@@ -1,16 +1,63 @@
-import type { AnyExpression, Condition, Config, fieldTypes, ParserState } from "json-to-sql-parser";
+import type { AnyExpression, Condition, ParserState } from "json-to-sql-parser";
 import { Dialect, ExpressionTypeMap, parseCondition, parseExpression } from "json-to-sql-parser";
+import { generateConversionSQL, type TypeConversion } from "./casts";
+import {
+	getFieldConstraintName,
+	getForeignKeyName,
+	getIndexName,
+	getPrimaryKey,
+	getTableConstraints,
+	type TableConstraint,
+	type TableForeignKey,
+} from "./constraints";
 //
-import type { z } from "zod";
-import type { dataModelSchema } from "./schemas";
-
-export type DataModel = z.infer<typeof dataModelSchema>;
+import { sortTablesByDependencies } from "./dependencies";
+import {
+	type Enum,
+	type EnumDiff,
+	type EnumValueRename,
+	generateEnumDiff,
+	getEnumValues,
+	requiresEnumRecreation,
+	resolveEnumValueRenames,
+} from "./enums";
+import { hashDataModel } from "./hashing";
+import {
+	createParserConfig,
+	type FieldTypeDefinition,
+	formatFieldType,
+	getTypeDefinition,
+	mapFieldTypeToSQL,
+} from "./parser-config";
+import {
+	generateCreatePolicySQL,
+	generateDropPolicySQL,
+	getTablePolicies,
+	hasRowLevelSecurity,
+	type TablePolicy,
+} from "./policies";
+import { assertSafeChanges, createUnsafeChange, type SafetyOptions, type UnsafeChange } from "./safety";
+import { type DataModel, policyOperations } from "./schemas";
+import { getLatestSnapshot, type ModelSnapshot, SnapshotError, type SnapshotStore } from "./snapshot-store";
+import { createStatement, joinStatements, type MigrationStatement } from "./statements";
+import {
+	generateCreateAutoUpdateStatements,
+	generateDropAutoUpdateStatements,
+	generateRenameAutoUpdateStatements,
+} from "./triggers";
+import { assertValidDataModel } from "./validation";
+import { bindVariables, defaultVariableBindings, substituteRuntimeVariables, type VariableBindings } from "./variables";
 
 type FieldChange = {
-	type?: { from: string; to: string };
+	type?: TypeConversion;
 	nonNullable?: { from: boolean; to: boolean };
 	primaryKey?: { from: boolean; to: boolean };
+	unique?: { from: boolean; to: boolean };
 	default?: { from: AnyExpression | undefined; to: AnyExpression | undefined };
+	autoIncrement?: { from: boolean; to: boolean };
+	autoGenerate?: { from: boolean; to: boolean };
+	autoUpdate?: { from: boolean; to: boolean };
+	generated?: { from: Field["generated"]; to: Field["generated"] };
 	foreignKey?: {
 		from: Field["foreignKey"] | undefined;
 		to: Field["foreignKey"] | undefined;
@@ -19,523 +66,1527 @@ type FieldChange = {
 
 type Field = DataModel["tables"][number]["fields"][number];
 
+type Table = DataModel["tables"][number];
+
+type Index = NonNullable<Table["indexes"]>[number];
+
+export type Rename<T> = { from: T; to: T; detected: boolean };
+
+type RenameHint = Rename<string>;
+type ModelRenames = { tables: RenameHint[]; fields: Map<string, RenameHint[]>; enumValues: Map<string, EnumValueRename[]> };
+
 type TableModification = {
 	tableName: string;
 	fieldsAdded: Field[];
 	fieldsRemoved: Field[];
+	fieldsRenamed: Rename<Field>[];
 	fieldsModified: Array<{
 		field: Field;
 		changes: FieldChange;
 	}>;
+	constraintsAdded: TableConstraint[];
+	constraintsRemoved: TableConstraint[];
+	indexesAdded: Index[];
+	indexesRemoved: Index[];
 	accessControlChanged: boolean;
 };
 
-type AccessControlChange = {
-	read?: { from: Condition; to: Condition };
-	create?: { from: Condition; to: Condition };
-	update?: { from: Condition; to: Condition };
-	delete?: { from: Condition; to: Condition };
-};
-
 export type TableDiff = {
 	added: DataModel["tables"];
 	removed: DataModel["tables"];
+	renamed: Rename<Table>[];
 	modified: TableModification[];
 };
 
+type AccessControlTableDiff = {
+	tableName: string;
+	policiesAdded: TablePolicy[];
+	policiesRemoved: TablePolicy[];
+	rowLevelSecurity?: { from: boolean; to: boolean };
+	forceRowLevelSecurity?: { from: boolean; to: boolean };
+};
+
 export type AccessControlDiff = {
-	tables: Array<{ tableName: string; changes: AccessControlChange }>;
+	tables: AccessControlTableDiff[];
+	// Removed tables are dropped along with their policies
+	removed: string[];
 };
 
-export type DatabaseDiff = { tables: TableDiff; accessControl: AccessControlDiff };
-export type MigrationResult = { sql: string; accessControlDiff: AccessControlDiff };
+// Changes that can lose data or fail on existing rows, any other change is safe
+export type DatabaseDiff = {
+	tables: TableDiff;
+	enums: EnumDiff;
+	accessControl: AccessControlDiff;
+	unsafeChanges: UnsafeChange[];
+};
+export type DiffOptions = { detectRenames?: boolean };
+export type MigrationModels = { from: DataModel; to: DataModel };
+export type MigrationResult = {
+	up: string;
+	down: string;
+	statements: { up: MigrationStatement[]; down: MigrationStatement[] };
+	accessControlDiff: AccessControlDiff;
+};
+export type MigrationOptions = {
+	variables?: VariableBindings;
+	concurrentIndexes?: boolean;
+} & SafetyOptions;
+export type NextMigration = { snapshot: ModelSnapshot; diff: DatabaseDiff; migration: MigrationResult };
 
 /**
- * Compare two data models and generate a diff
+ * Compare two data models and generate a diff. Tables and fields are matched by name, or through their
+ * `renamedFrom` hint; with `detectRenames`, a removed and an added item of the same shape are also matched.
  */
-export function generateDatabaseDiff(oldModel: DataModel, newModel: DataModel): DatabaseDiff {
-	const tableDiff = generateTableDiff(oldModel.tables, newModel.tables);
-	const accessControlDiff = generateAccessControlDiff(oldModel.tables, newModel.tables);
+export function generateDatabaseDiff(oldModel: DataModel, newModel: DataModel, options: DiffOptions = {}): DatabaseDiff {
+	return diffDataModels(oldModel, newModel, resolveModelRenames(oldModel, newModel, options.detectRenames ?? false));
+}
 
-	return { tables: tableDiff, accessControl: accessControlDiff };
+/**
+ * Generate up and down SQL migrations from a database diff between two data models. Throws an `UnsafeMigrationError`
+ * when the diff has unsafe changes, unless `allowDestructive` is set or each of them is acknowledged by its id.
+ */
+export function generateMigrationFromDiff(
+	diff: DatabaseDiff,
+	models: MigrationModels,
+	dialect: Dialect,
+	options: MigrationOptions = {},
+): MigrationResult {
+	assertValidDataModel(models.from, dialect, options);
+	assertValidDataModel(models.to, dialect, options);
+	assertSafeChanges(diff.unsafeChanges, options);
+
+	const rollbackDiff = diffDataModels(models.to, models.from, invertRenames(diff));
+	const up = generateMigrationStatements(diff, models, dialect, options);
+	const down = generateMigrationStatements(rollbackDiff, { from: models.to, to: models.from }, dialect, options);
+
+	return { up: joinStatements(up), down: joinStatements(down), statements: { up, down }, accessControlDiff: diff.accessControl };
 }
 
 /**
- * Generate SQL migration from a database diff
+ * Generate a complete migration from a single data model (create everything from scratch)
  */
-export function generateMigrationFromDiff(diff: DatabaseDiff, targetModel: DataModel, dialect: Dialect): MigrationResult {
-	const sqlParts: string[] = [];
+export function generateInitialMigration(model: DataModel, dialect: Dialect, options: MigrationOptions = {}): MigrationResult {
+	assertValidDataModel(model, dialect, options);
 
-	// Handle table removals first
-	for (const table of diff.tables.removed) {
-		sqlParts.push(`DROP TABLE IF EXISTS "${table.name}";`);
+	const up: MigrationStatement[] = [];
+	const { tables } = sortTablesByDependencies(model.tables);
+
+	// Enums are PostgreSQL types, which have to exist before the columns using them
+	if (dialect === Dialect.POSTGRESQL) up.push(...(model.enums ?? []).map(generateCreateEnumStatement));
+
+	// Create all tables, referenced tables first
+	for (const table of tables) up.push(...generateCreateTableStatements(table, model, dialect));
+	for (const table of tables) up.push(...generateTableTriggersStatements(table, dialect));
+
+	// Create foreign key constraints for PostgreSQL (SQLite handles them inline)
+	if (dialect === Dialect.POSTGRESQL) up.push(...tables.flatMap(generateTableForeignKeysStatements));
+
+	for (const table of tables) up.push(...generateTableIndexesStatements(table, model, dialect, options));
+
+	const down = generateDropTablesStatements(model.tables, [], dialect);
+	if (dialect === Dialect.POSTGRESQL) down.push(...(model.enums ?? []).map(generateDropEnumStatement));
+	const result = { up: "", down: joinStatements(down), statements: { up, down } };
+
+	// Generate RLS policies for PostgreSQL
+	if (dialect === Dialect.POSTGRESQL) {
+		const accessControlDiff = generateAccessControlDiffForFullMigration(model.tables);
+		up.push(...generateRLSPoliciesStatements(accessControlDiff, model, options));
+
+		return { ...result, up: joinStatements(up), accessControlDiff };
 	}
 
-	// Handle table additions
-	for (const table of diff.tables.added) {
-		sqlParts.push(generateCreateTableSQL(table, dialect));
+	return { ...result, up: joinStatements(up), accessControlDiff: { tables: [], removed: [] } };
+}
+
+/**
+ * Generate the migration from the latest snapshot of a store to a data model, or the initial migration when the store
+ * is empty, and save the model as the next snapshot. Returns `undefined` when the model matches the latest snapshot.
+ * Throws a `SnapshotError` when the snapshots of the store conflict.
+ */
+export async function generateNextMigration(
+	store: SnapshotStore,
+	id: string,
+	model: DataModel,
+	dialect: Dialect,
+	options: MigrationOptions & DiffOptions = {},
+): Promise<NextMigration | undefined> {
+	const snapshots = await store.list();
+	const previous = getLatestSnapshot(snapshots);
+	const hash = hashDataModel(model);
+	if (previous?.hash === hash) return undefined;
+	if (snapshots.some((snapshot) => snapshot.id === id)) throw new SnapshotError([id], "duplicate_id", "already exists");
+
+	const diff = generateDatabaseDiff(previous?.model ?? { tables: [] }, model, options);
+	const migration = previous
+		? generateMigrationFromDiff(diff, { from: previous.model, to: model }, dialect, options)
+		: generateInitialMigration(model, dialect, options);
+	const snapshot = { id, parentId: previous?.id ?? null, parentHash: previous?.hash ?? null, hash, model };
+	await store.save(snapshot, migration);
+
+	return { snapshot, diff, migration };
+}
+
+function generateMigrationStatements(
+	diff: DatabaseDiff,
+	models: MigrationModels,
+	dialect: Dialect,
+	options: MigrationOptions,
+): MigrationStatement[] {
+	const targetModel = models.to;
+	const statements: MigrationStatement[] = [];
+
+	// Handle table removals first
+	statements.push(...generateDropTablesStatements(diff.tables.removed, diff.tables.modified, dialect));
+
+	// Enums are changed before the tables using them, on the previous table and column names
+	if (dialect === Dialect.POSTGRESQL) statements.push(...generateEnumsStatements(diff));
+
+	// Rename tables before touching their columns
+	for (const rename of diff.tables.renamed)
+		statements.push(...generateRenameTableStatements(rename, targetModel, dialect, options));
+
+	// Handle table additions, referenced tables first
+	for (const table of sortTablesByDependencies(diff.tables.added).tables) {
+		statements.push(...generateCreateTableStatements(table, targetModel, dialect));
+		statements.push(...generateTableTriggersStatements(table, dialect));
 	}
 
+	// Foreign keys of added tables are created once all of them exist, as they may reference each other
+	if (dialect === Dialect.POSTGRESQL) statements.push(...diff.tables.added.flatMap(generateTableForeignKeysStatements));
+
+	for (const table of diff.tables.added) statements.push(...generateTableIndexesStatements(table, targetModel, dialect, options));
+
+	// SQLite checks enum values with constraints, so the tables using a changed enum are rebuilt
+	const enumTables = isSQLite(dialect) ? getEnumTables(diff, targetModel) : new Set<string>();
+	const enumModifications = [...enumTables]
+		.filter((tableName) => !diff.tables.modified.some((modification) => modification.tableName === tableName))
+		.map(createEmptyModification);
+
 	// Handle table modifications
-	for (const modification of diff.tables.modified) {
-		// Add new fields
-		for (const field of modification.fieldsAdded) {
-			sqlParts.push(generateAddColumnSQL(modification.tableName, field, dialect));
+	for (const modification of [...diff.tables.modified, ...enumModifications]) {
+		const { tableName } = modification;
 
-			// If the new field has a foreign key, add it separately for PostgreSQL
-			if (field.foreignKey && dialect === Dialect.POSTGRESQL) {
-				const constraintName = `fk_${modification.tableName}_${field.name}`;
-				let sql = `ALTER TABLE "${modification.tableName}" ADD CONSTRAINT "${constraintName}" FOREIGN KEY ("${field.name}") REFERENCES "${field.foreignKey.table}" ("${field.foreignKey.field}")`;
+		// Rename fields
+		for (const rename of modification.fieldsRenamed)
+			statements.push(...generateRenameColumnStatements(tableName, rename, dialect));
 
-				if (field.foreignKey.onDelete) sql += ` ON DELETE ${field.foreignKey.onDelete.toUpperCase().replace(" ", " ")}`;
-				if (field.foreignKey.onUpdate) sql += ` ON UPDATE ${field.foreignKey.onUpdate.toUpperCase().replace(" ", " ")}`;
-				sqlParts.push(`${sql};`);
+		if (isSQLite(dialect) && (requiresTableRebuild(modification) || enumTables.has(tableName))) {
+			const table = targetModel.tables.find((t) => t.name === tableName);
+			if (table) statements.push(...generateRebuildTableStatements(table, modification, targetModel, diff.enums, dialect));
+			continue;
+		}
+
+		// Drop indexes before their columns, as SQLite cannot drop indexed columns
+		for (const index of modification.indexesRemoved)
+			statements.push(generateDropIndexStatement(tableName, index, dialect, options));
+
+		for (const constraint of modification.constraintsRemoved) {
+			const sql = `ALTER TABLE "${tableName}" DROP CONSTRAINT IF EXISTS "${constraint.name}";`;
+			statements.push(createStatement(constraint.kind === "foreignKey" ? "drop_fk" : "drop_constraint", tableName, sql));
+		}
+
+		// Add new fields, PostgreSQL only constrains backfilled fields once their existing rows are filled
+		for (const field of modification.fieldsAdded) {
+			const backfill = field.migrate?.backfill;
+			const deferNotNull = backfill !== undefined && field.nonNullable === true && dialect === Dialect.POSTGRESQL;
+
+			const column = deferNotNull ? { ...field, nonNullable: false } : field;
+			statements.push(generateAddColumnStatement(tableName, column, targetModel, dialect));
+			if (backfill !== undefined)
+				statements.push(generateBackfillStatement(tableName, field.name, backfill, targetModel, dialect));
+			if (deferNotNull) {
+				const sql = `ALTER TABLE "${tableName}" ALTER COLUMN "${field.name}" SET NOT NULL;`;
+				statements.push(createStatement("alter_nullability", tableName, sql, { column: field.name }));
 			}
+
+			// If the new field has a foreign key, add it separately for PostgreSQL
+			if (field.foreignKey && dialect === Dialect.POSTGRESQL)
+				statements.push(generateAddForeignKeyStatement(tableName, field.name, field.foreignKey));
+			if (field.autoUpdate) statements.push(...generateCreateAutoUpdateStatements(tableName, field.name, dialect));
 		}
 
-		// Remove fields
+		// Remove fields, along with the triggers referencing them
 		for (const field of modification.fieldsRemoved) {
+			if (field.autoUpdate) statements.push(...generateDropAutoUpdateStatements(tableName, field.name, dialect));
 			// For PostgreSQL, drop foreign key constraint first if it exists
-			if (field.foreignKey && dialect === Dialect.POSTGRESQL) {
-				const constraintName = `fk_${modification.tableName}_${field.name}`;
-				sqlParts.push(`ALTER TABLE "${modification.tableName}" DROP CONSTRAINT IF EXISTS "${constraintName}";`);
-			}
-			sqlParts.push(`ALTER TABLE "${modification.tableName}" DROP COLUMN "${field.name}";`);
+			if (field.foreignKey && dialect === Dialect.POSTGRESQL)
+				statements.push(
+					generateDropForeignKeyStatement(tableName, getFieldConstraintName("foreignKey", tableName, field.name), field.name),
+				);
+			const sql = `ALTER TABLE "${tableName}" DROP COLUMN "${field.name}";`;
+			statements.push(createStatement("drop_column", tableName, sql, { column: field.name, destructive: true }));
 		}
 
 		// Modify existing fields
 		for (const fieldMod of modification.fieldsModified) {
+			// Generation expressions cannot be altered, so generated fields are dropped and added again
+			const { generated } = fieldMod.changes;
+			if (generated?.to) {
+				const sql = `ALTER TABLE "${tableName}" DROP COLUMN "${fieldMod.field.name}";`;
+				const details = { column: fieldMod.field.name, destructive: generated.from === undefined };
+				statements.push(createStatement("drop_column", tableName, sql, details));
+				statements.push(generateAddColumnStatement(tableName, fieldMod.field, targetModel, dialect));
+				if (fieldMod.field.foreignKey && dialect === Dialect.POSTGRESQL)
+					statements.push(generateAddForeignKeyStatement(tableName, fieldMod.field.name, fieldMod.field.foreignKey));
+				continue;
+			}
+
 			// Handle foreign key changes
 			if (fieldMod.changes.foreignKey && dialect === Dialect.POSTGRESQL) {
-				const constraintName = `fk_${modification.tableName}_${fieldMod.field.name}`;
+				const constraintName = getFieldConstraintName("foreignKey", tableName, fieldMod.field.name);
 
 				// Drop old constraint if it existed
-				if (fieldMod.changes.foreignKey.from) {
-					sqlParts.push(`ALTER TABLE "${modification.tableName}" DROP CONSTRAINT IF EXISTS "${constraintName}";`);
-				}
+				if (fieldMod.changes.foreignKey.from)
+					statements.push(generateDropForeignKeyStatement(tableName, constraintName, fieldMod.field.name));
 
 				// Add new constraint if it exists
-				if (fieldMod.changes.foreignKey.to) {
-					const fk = fieldMod.changes.foreignKey.to;
-					let sql = `ALTER TABLE "${modification.tableName}" ADD CONSTRAINT "${constraintName}" FOREIGN KEY ("${fieldMod.field.name}") REFERENCES "${fk.table}" ("${fk.field}")`;
-
-					if (fk.onDelete) sql += ` ON DELETE ${fk.onDelete.toUpperCase().replace(" ", " ")}`;
-					if (fk.onUpdate) sql += ` ON UPDATE ${fk.onUpdate.toUpperCase().replace(" ", " ")}`;
-					sqlParts.push(`${sql};`);
-				}
+				if (fieldMod.changes.foreignKey.to)
+					statements.push(generateAddForeignKeyStatement(tableName, fieldMod.field.name, fieldMod.changes.foreignKey.to));
 			}
 
-			sqlParts.push(generateAlterColumnSQL(modification.tableName, fieldMod.field, fieldMod.changes, dialect));
+			statements.push(...generateAlterColumnStatements(tableName, fieldMod.field, fieldMod.changes, models));
 		}
+
+		// Dropping the generated fields dropped the indexes and constraints on them, which are created again
+		const table = targetModel.tables.find((t) => t.name === tableName);
+		const regenerated = modification.fieldsModified.filter(({ changes }) => changes.generated?.to).map(({ field }) => field.name);
+		const dependents = table ? getColumnDependents(table, regenerated, targetModel) : { indexes: [], constraints: [] };
+		const addedConstraintNames = new Set(modification.constraintsAdded.map((constraint) => constraint.name));
+		const addedIndexNames = new Set(modification.indexesAdded.map((index) => getIndexName(tableName, index)));
+
+		for (const constraint of [
+			...modification.constraintsAdded,
+			...dependents.constraints.filter((constraint) => !addedConstraintNames.has(constraint.name)),
+		])
+			statements.push(generateAddConstraintStatement(tableName, constraint, targetModel));
+
+		for (const index of [
+			...modification.indexesAdded,
+			...dependents.indexes.filter((index) => !addedIndexNames.has(getIndexName(tableName, index))),
+		])
+			if (table) statements.push(generateCreateIndexStatement(table, index, targetModel, dialect, options));
 	}
 
 	// Handle RLS policies for PostgreSQL
-	if (dialect === Dialect.POSTGRESQL) sqlParts.push(...generateRLSPoliciesSQL(diff.accessControl, targetModel));
+	if (dialect === Dialect.POSTGRESQL) statements.push(...generateRLSPoliciesStatements(diff.accessControl, targetModel, options));
 
-	return { sql: sqlParts.filter(Boolean).join("\n\n"), accessControlDiff: diff.accessControl };
+	// Removed enums are dropped once no column uses them anymore
+	if (dialect === Dialect.POSTGRESQL) statements.push(...diff.enums.removed.map(generateDropEnumStatement));
+
+	return commitUsedEnumValues(statements);
 }
 
-/**
- * Generate a complete migration from a single data model (create everything from scratch)
- */
-export function generateInitialMigration(model: DataModel, dialect: Dialect): MigrationResult {
-	const sqlParts: string[] = [];
+// Helper functions for generating diffs
 
-	// Create all tables
-	for (const table of model.tables) sqlParts.push(generateCreateTableSQL(table, dialect));
+function diffDataModels(oldModel: DataModel, newModel: DataModel, renames: ModelRenames): DatabaseDiff {
+	const tableDiff = generateTableDiff(oldModel.tables, newModel.tables, renames);
+	const enumDiff = generateEnumDiff(oldModel, newModel, renames.enumValues);
+	const accessControlDiff = generateAccessControlDiff(oldModel.tables, newModel.tables, renames);
 
-	// Create foreign key constraints for PostgreSQL (SQLite handles them inline)
-	if (dialect === Dialect.POSTGRESQL) {
-		for (const table of model.tables) {
-			for (const field of table.fields) {
-				if (field.foreignKey) {
-					const constraintName = `fk_${table.name}_${field.name}`;
-					let sql = `ALTER TABLE "${table.name}" ADD CONSTRAINT "${constraintName}" FOREIGN KEY ("${field.name}") REFERENCES "${field.foreignKey.table}" ("${field.foreignKey.field}")`;
-
-					if (field.foreignKey.onDelete) sql += ` ON DELETE ${field.foreignKey.onDelete.toUpperCase().replace(" ", " ")}`;
-					if (field.foreignKey.onUpdate) sql += ` ON UPDATE ${field.foreignKey.onUpdate.toUpperCase().replace(" ", " ")}`;
-					sqlParts.push(`${sql};`);
-				}
-			}
-		}
+	return {
+		tables: tableDiff,
+		enums: enumDiff,
+		accessControl: accessControlDiff,
+		unsafeChanges: classifyUnsafeChanges(tableDiff, enumDiff, { from: oldModel, to: newModel }),
+	};
+}
+
+function resolveRenames<T extends { name: string; renamedFrom?: string }>(
+	oldItems: T[],
+	newItems: T[],
+	detectRenames: boolean,
+	haveSameShape: (oldItem: T, newItem: T) => boolean,
+): RenameHint[] {
+	const oldNames = new Set(oldItems.map((item) => item.name));
+	const newNames = new Set(newItems.map((item) => item.name));
+
+	const renames: RenameHint[] = newItems
+		.filter(
+			({ name, renamedFrom }) => renamedFrom && !oldNames.has(name) && oldNames.has(renamedFrom) && !newNames.has(renamedFrom),
+		)
+		.map(({ name, renamedFrom }) => ({ from: renamedFrom!, to: name, detected: false }));
+
+	if (!detectRenames) return renames;
+
+	const removed = oldItems.filter((item) => !newNames.has(item.name) && !renames.some((rename) => rename.from === item.name));
+	const added = newItems.filter((item) => !oldNames.has(item.name) && !renames.some((rename) => rename.to === item.name));
+
+	// Only propose a rename when the match is unambiguous in both directions
+	for (const addedItem of added) {
+		const candidates = removed.filter((removedItem) => haveSameShape(removedItem, addedItem));
+		const [candidate] = candidates;
+		if (!candidate || candidates.length > 1) continue;
+		if (added.filter((item) => haveSameShape(candidate, item)).length > 1) continue;
+
+		renames.push({ from: candidate.name, to: addedItem.name, detected: true });
 	}
 
-	// Generate RLS policies for PostgreSQL
-	if (dialect === Dialect.POSTGRESQL) {
-		const accessControlDiff = generateAccessControlDiffForFullMigration(model.tables);
-		sqlParts.push(...generateRLSPoliciesSQL(accessControlDiff, model));
+	return renames;
+}
 
-		return { sql: sqlParts.filter(Boolean).join("\n\n"), accessControlDiff };
+function fieldShape(field: Field) {
+	return {
+		...getTypeDefinition(field),
+		nonNullable: field.nonNullable ?? false,
+		primaryKey: field.primaryKey ?? false,
+		unique: field.unique ?? false,
+		default: field.default,
+		autoIncrement: field.autoIncrement ?? false,
+		autoGenerate: field.autoGenerate ?? false,
+		autoUpdate: field.autoUpdate ?? false,
+		generated: field.generated,
+		foreignKey: field.foreignKey,
+	};
+}
+
+function resolveModelRenames(oldModel: DataModel, newModel: DataModel, detectRenames: boolean): ModelRenames {
+	const haveSameFields = (oldTable: Table, newTable: Table) =>
+		deepEqual(
+			oldTable.fields.map((field) => ({ name: field.name, ...fieldShape(field) })),
+			newTable.fields.map((field) => ({ name: field.name, ...fieldShape(field) })),
+		);
+	const haveSameShape = (oldField: Field, newField: Field) => deepEqual(fieldShape(oldField), fieldShape(newField));
+
+	const tables = resolveRenames(oldModel.tables, newModel.tables, detectRenames, haveSameFields);
+	const previousTableNames = new Map(tables.map((rename) => [rename.to, rename.from]));
+	const oldTableMap = new Map(oldModel.tables.map((t) => [t.name, t]));
+	const fields = new Map<string, RenameHint[]>();
+
+	for (const newTable of newModel.tables) {
+		const oldTable = oldTableMap.get(previousTableNames.get(newTable.name) ?? newTable.name);
+		if (oldTable) fields.set(newTable.name, resolveRenames(oldTable.fields, newTable.fields, detectRenames, haveSameShape));
 	}
 
-	return { sql: sqlParts.filter(Boolean).join("\n\n"), accessControlDiff: { tables: [] } };
+	return { tables, fields, enumValues: resolveEnumValueRenames(oldModel, newModel) };
 }
 
-// Helper functions for generating diffs
+function invertRenames(diff: DatabaseDiff): ModelRenames {
+	const previousTableNames = new Map(diff.tables.renamed.map(({ from, to }) => [to.name, from.name]));
+
+	return {
+		tables: diff.tables.renamed.map(({ from, to, detected }) => ({ from: to.name, to: from.name, detected })),
+		fields: new Map(
+			diff.tables.modified.map((modification) => [
+				previousTableNames.get(modification.tableName) ?? modification.tableName,
+				modification.fieldsRenamed.map(({ from, to, detected }) => ({ from: to.name, to: from.name, detected })),
+			]),
+		),
+		enumValues: new Map(
+			diff.enums.modified.map(({ name, valuesRenamed }) => [name, valuesRenamed.map(({ from, to }) => ({ from: to, to: from }))]),
+		),
+	};
+}
 
-function generateTableDiff(oldTables: DataModel["tables"], newTables: DataModel["tables"]): TableDiff {
+function generateTableDiff(oldTables: DataModel["tables"], newTables: DataModel["tables"], renames: ModelRenames): TableDiff {
 	const oldTableMap = new Map(oldTables.map((t) => [t.name, t]));
 	const newTableMap = new Map(newTables.map((t) => [t.name, t]));
-
-	const added = newTables.filter((t) => !oldTableMap.has(t.name));
-	const removed = oldTables.filter((t) => !newTableMap.has(t.name));
+	const previousTableNames = new Map(renames.tables.map((rename) => [rename.to, rename.from]));
+	const nextTableNames = new Map(renames.tables.map((rename) => [rename.from, rename.to]));
+
+	const added = newTables.filter((t) => !oldTableMap.has(t.name) && !previousTableNames.has(t.name));
+	const removed = oldTables.filter((t) => !newTableMap.has(t.name) && !nextTableNames.has(t.name));
+	const renamed = renames.tables.map(({ from, to, detected }) => ({
+		from: oldTableMap.get(from)!,
+		to: newTableMap.get(to)!,
+		detected,
+	}));
 	const modified: TableModification[] = [];
 
+	// Foreign keys of the old model are compared against the new model through the renamed tables and fields
+	const renameField = (tableName: string, fieldName: string) =>
+		renames.fields.get(tableName)?.find((rename) => rename.from === fieldName)?.to ?? fieldName;
+	const renameReference = (foreignKey: Field["foreignKey"]): Field["foreignKey"] => {
+		if (!foreignKey) return foreignKey;
+
+		const table = nextTableNames.get(foreignKey.table) ?? foreignKey.table;
+		return { ...foreignKey, table, field: renameField(table, foreignKey.field) };
+	};
+
 	for (const newTable of newTables) {
-		const oldTable = oldTableMap.get(newTable.name);
+		const oldTable = oldTableMap.get(previousTableNames.get(newTable.name) ?? newTable.name);
 		if (!oldTable) continue;
 
-		const fieldChanges = generateFieldDiff(oldTable.fields, newTable.fields);
-		const accessControlChanged = !deepEqual(oldTable.accessControl, newTable.accessControl);
+		const fieldChanges = generateFieldDiff(
+			oldTable.fields,
+			newTable.fields,
+			renames.fields.get(newTable.name) ?? [],
+			renameReference,
+		);
+		const renameConstraint = (constraint: TableConstraint): TableConstraint => {
+			if (constraint.kind === "check") return constraint;
+			if (constraint.kind === "primaryKey")
+				return { ...constraint, columns: constraint.columns.map((column) => renameField(newTable.name, column)) };
+
+			const { columns, references } = constraint.foreignKey;
+			const table = nextTableNames.get(references.table) ?? references.table;
+			return {
+				...constraint,
+				foreignKey: {
+					...constraint.foreignKey,
+					columns: columns.map((column) => renameField(newTable.name, column)),
+					references: { table, columns: references.columns.map((column) => renameField(table, column)) },
+				},
+			};
+		};
+		const constraintChanges = generateConstraintDiff(oldTable, newTable, renameConstraint);
+		const indexChanges = generateIndexDiff({ ...oldTable, name: newTable.name }, newTable, (index) => ({
+			...index,
+			columns: index.columns.map((column) => renameField(newTable.name, column)),
+		}));
+		const accessControlChanged = !deepEqual(getAccessControlShape(oldTable, newTable.name), getAccessControlShape(newTable));
 
 		if (
 			fieldChanges.fieldsAdded.length > 0 ||
 			fieldChanges.fieldsRemoved.length > 0 ||
+			fieldChanges.fieldsRenamed.length > 0 ||
 			fieldChanges.fieldsModified.length > 0 ||
+			constraintChanges.constraintsAdded.length > 0 ||
+			constraintChanges.constraintsRemoved.length > 0 ||
+			indexChanges.indexesAdded.length > 0 ||
+			indexChanges.indexesRemoved.length > 0 ||
 			accessControlChanged
 		) {
 			modified.push({
 				tableName: newTable.name,
 				...fieldChanges,
+				...constraintChanges,
+				...indexChanges,
 				accessControlChanged,
 			});
 		}
 	}
 
-	return { added, removed, modified };
+	return { added, removed, renamed, modified };
 }
 
-function generateFieldDiff(oldFields: Field[], newFields: Field[]) {
+function generateFieldDiff(
+	oldFields: Field[],
+	newFields: Field[],
+	fieldRenames: RenameHint[],
+	renameReference: (foreignKey: Field["foreignKey"]) => Field["foreignKey"],
+) {
 	const oldFieldMap = new Map(oldFields.map((f) => [f.name, f]));
 	const newFieldMap = new Map(newFields.map((f) => [f.name, f]));
-
-	const fieldsAdded = newFields.filter((f) => !oldFieldMap.has(f.name));
-	const fieldsRemoved = oldFields.filter((f) => !newFieldMap.has(f.name));
+	const previousFieldNames = new Map(fieldRenames.map((rename) => [rename.to, rename.from]));
+	const renamedFieldNames = new Set(fieldRenames.map((rename) => rename.from));
+
+	const fieldsAdded = newFields.filter((f) => !oldFieldMap.has(f.name) && !previousFieldNames.has(f.name));
+	const fieldsRemoved = oldFields.filter((f) => !newFieldMap.has(f.name) && !renamedFieldNames.has(f.name));
+	const fieldsRenamed = fieldRenames.map(({ from, to, detected }) => ({
+		from: oldFieldMap.get(from)!,
+		to: newFieldMap.get(to)!,
+		detected,
+	}));
 	const fieldsModified: Array<{ field: Field; changes: FieldChange }> = [];
 
 	for (const newField of newFields) {
-		const oldField = oldFieldMap.get(newField.name);
+		const oldField = oldFieldMap.get(previousFieldNames.get(newField.name) ?? newField.name);
 		if (!oldField) continue;
 
 		const changes: FieldChange = {};
 
-		if (oldField.type !== newField.type) changes.type = { from: oldField.type, to: newField.type };
-		if (oldField.nonNullable !== newField.nonNullable)
+		const [oldType, newType] = [getTypeDefinition(oldField), getTypeDefinition(newField)];
+		if (!deepEqual(oldType, newType)) changes.type = { from: oldType, to: newType, using: newField.migrate?.using };
+		if ((oldField.nonNullable ?? false) !== (newField.nonNullable ?? false))
 			changes.nonNullable = { from: oldField.nonNullable ?? false, to: newField.nonNullable ?? false };
-		if (oldField.primaryKey !== newField.primaryKey)
+		if ((oldField.primaryKey ?? false) !== (newField.primaryKey ?? false))
 			changes.primaryKey = { from: oldField.primaryKey ?? false, to: newField.primaryKey ?? false };
+		if ((oldField.unique ?? false) !== (newField.unique ?? false))
+			changes.unique = { from: oldField.unique ?? false, to: newField.unique ?? false };
 
 		if (!deepEqual(oldField.default, newField.default)) changes.default = { from: oldField.default, to: newField.default };
+		for (const attribute of ["autoIncrement", "autoGenerate", "autoUpdate"] as const) {
+			if ((oldField[attribute] ?? false) !== (newField[attribute] ?? false))
+				changes[attribute] = { from: oldField[attribute] ?? false, to: newField[attribute] ?? false };
+		}
 
-		if (!deepEqual(oldField.foreignKey, newField.foreignKey))
+		if (!deepEqual(oldField.generated, newField.generated))
+			changes.generated = { from: oldField.generated, to: newField.generated };
+
+		if (!deepEqual(renameReference(oldField.foreignKey), newField.foreignKey))
 			changes.foreignKey = { from: oldField.foreignKey, to: newField.foreignKey };
 
 		if (Object.keys(changes).length > 0) fieldsModified.push({ field: newField, changes });
 	}
 
-	return { fieldsAdded, fieldsRemoved, fieldsModified };
+	return { fieldsAdded, fieldsRemoved, fieldsRenamed, fieldsModified };
+}
+
+// Old constraint names are derived from the new table name, as renaming a table also renames its constraints
+function generateConstraintDiff(
+	oldTable: Table,
+	newTable: Table,
+	renameConstraint: (constraint: TableConstraint) => TableConstraint,
+) {
+	const oldConstraints = new Map(getTableConstraints({ ...oldTable, name: newTable.name }).map((c) => [c.name, c]));
+	const newConstraints = new Map(getTableConstraints(newTable).map((c) => [c.name, c]));
+
+	const isUnchanged = (oldConstraint: TableConstraint | undefined, newConstraint: TableConstraint | undefined) =>
+		oldConstraint !== undefined && deepEqual(renameConstraint(oldConstraint), newConstraint);
+
+	const constraintsAdded = [...newConstraints]
+		.filter(([name, constraint]) => !isUnchanged(oldConstraints.get(name), constraint))
+		.map(([, constraint]) => constraint);
+	const constraintsRemoved = [...oldConstraints]
+		.filter(([name, constraint]) => !isUnchanged(constraint, newConstraints.get(name)))
+		.map(([, constraint]) => constraint);
+
+	return { constraintsAdded, constraintsRemoved };
+}
+
+// Indexes are matched by name, so changing the definition of an index drops and re-creates it. The columns of the old
+// indexes are compared through the renamed fields, as renaming a column keeps the indexes on it
+function generateIndexDiff(oldTable: Table, newTable: Table, renameIndex: (index: Index) => Index) {
+	const oldIndexes = new Map((oldTable.indexes ?? []).map((index) => [getIndexName(oldTable.name, index), index]));
+	const newIndexes = new Map((newTable.indexes ?? []).map((index) => [getIndexName(newTable.name, index), index]));
+
+	const isUnchanged = (oldIndex: Index | undefined, newIndex: Index | undefined) =>
+		oldIndex !== undefined && deepEqual(renameIndex(oldIndex), newIndex);
+
+	const indexesAdded = [...newIndexes]
+		.filter(([name, index]) => !isUnchanged(oldIndexes.get(name), index))
+		.map(([, index]) => index);
+	const indexesRemoved = [...oldIndexes]
+		.filter(([name, index]) => !isUnchanged(index, newIndexes.get(name)))
+		.map(([, index]) => index);
+
+	return { indexesAdded, indexesRemoved };
 }
 
 // SQL Generation Functions
 
-function generateAccessControlDiff(oldTables: DataModel["tables"], newTables: DataModel["tables"]): AccessControlDiff {
+function generateAccessControlDiff(
+	oldTables: DataModel["tables"],
+	newTables: DataModel["tables"],
+	renames: ModelRenames,
+): AccessControlDiff {
 	const oldTableMap = new Map(oldTables.map((t) => [t.name, t]));
-	const tables: Array<{
-		tableName: string;
-		changes: AccessControlChange;
-	}> = [];
+	const previousTableNames = new Map(renames.tables.map((rename) => [rename.to, rename.from]));
+	const renamedTableNames = new Set(renames.tables.map((rename) => rename.from));
+	const tables: AccessControlTableDiff[] = [];
 
 	for (const newTable of newTables) {
-		const oldTable = oldTableMap.get(newTable.name);
-		if (!oldTable) {
-			// New table, all access control is "added"
-			// Use a default permissive condition for the "from" state
-			const defaultCondition: Condition = true;
-			tables.push({
-				tableName: newTable.name,
-				changes: {
-					read: { from: defaultCondition, to: newTable.accessControl.read },
-					create: { from: defaultCondition, to: newTable.accessControl.create },
-					update: { from: defaultCondition, to: newTable.accessControl.update },
-					delete: { from: defaultCondition, to: newTable.accessControl.delete },
-				},
-			});
+		const previousTable = oldTableMap.get(previousTableNames.get(newTable.name) ?? newTable.name);
+		if (!previousTable) {
+			tables.push(...generateAccessControlDiffForFullMigration([newTable]).tables);
 			continue;
 		}
 
-		const changes: AccessControlChange = {};
-
-		if (!deepEqual(oldTable.accessControl.read, newTable.accessControl.read)) {
-			changes.read = { from: oldTable.accessControl.read, to: newTable.accessControl.read };
+		// Policies following the table name are renamed along with it
+		const oldTable = { ...previousTable, name: newTable.name };
+		const [oldRowLevelSecurity, newRowLevelSecurity] = [hasRowLevelSecurity(oldTable), hasRowLevelSecurity(newTable)];
+		const oldPolicies = oldRowLevelSecurity ? getTablePolicies(oldTable) : [];
+		const newPolicies = newRowLevelSecurity ? getTablePolicies(newTable) : [];
+		const tableDiff: AccessControlTableDiff = {
+			tableName: newTable.name,
+			policiesAdded: newPolicies.filter((policy) => !oldPolicies.some((oldPolicy) => deepEqual(oldPolicy, policy))),
+			policiesRemoved: oldPolicies.filter((policy) => !newPolicies.some((newPolicy) => deepEqual(newPolicy, policy))),
+		};
+
+		if (oldRowLevelSecurity !== newRowLevelSecurity) {
+			tableDiff.rowLevelSecurity = { from: oldRowLevelSecurity, to: newRowLevelSecurity };
 		}
 
-		if (!deepEqual(oldTable.accessControl.create, newTable.accessControl.create)) {
-			changes.create = { from: oldTable.accessControl.create, to: newTable.accessControl.create };
-		}
-
-		if (!deepEqual(oldTable.accessControl.update, newTable.accessControl.update)) {
-			changes.update = { from: oldTable.accessControl.update, to: newTable.accessControl.update };
-		}
-
-		if (!deepEqual(oldTable.accessControl.delete, newTable.accessControl.delete)) {
-			changes.delete = { from: oldTable.accessControl.delete, to: newTable.accessControl.delete };
-		}
+		const [oldForce, newForce] = [oldTable.forceRowLevelSecurity ?? false, newTable.forceRowLevelSecurity ?? false];
+		if (oldForce !== newForce) tableDiff.forceRowLevelSecurity = { from: oldForce, to: newForce };
 
-		if (Object.keys(changes).length > 0) {
-			tables.push({
-				tableName: newTable.name,
-				changes,
-			});
+		if (
+			tableDiff.policiesAdded.length > 0 ||
+			tableDiff.policiesRemoved.length > 0 ||
+			tableDiff.rowLevelSecurity ||
+			tableDiff.forceRowLevelSecurity
+		) {
+			tables.push(tableDiff);
 		}
 	}
 
-	return { tables };
+	const removed = oldTables
+		.filter((t) => !newTables.some((newTable) => newTable.name === t.name) && !renamedTableNames.has(t.name))
+		.map((t) => t.name);
+
+	return { tables, removed };
 }
 
+// Row level security and its force option are set when tables are created
 function generateAccessControlDiffForFullMigration(tables: DataModel["tables"]): AccessControlDiff {
-	const defaultCondition: Condition = true;
 	return {
 		tables: tables.map((table) => ({
 			tableName: table.name,
-			changes: {
-				read: { from: defaultCondition, to: table.accessControl.read },
-				create: { from: defaultCondition, to: table.accessControl.create },
-				update: { from: defaultCondition, to: table.accessControl.update },
-				delete: { from: defaultCondition, to: table.accessControl.delete },
-			},
+			policiesAdded: hasRowLevelSecurity(table) ? getTablePolicies(table) : [],
+			policiesRemoved: [],
 		})),
+		removed: [],
 	};
 }
 
-// SQL Generation Functions
+// Casts to text always succeed, and widening a type keeps every value
+function isSafeCast(from: FieldTypeDefinition, to: FieldTypeDefinition, models: MigrationModels): boolean {
+	if (to.type === "string") return from.type !== "binary";
+	if (from.type === "date" && to.type === "datetime") return true;
+	if (from.type === "integer") return to.type === "bigint" || to.type === "number";
+	if (from.type === "varchar" && to.type === "varchar")
+		return to.length === undefined || (from.length !== undefined && from.length <= to.length);
+	if (from.type === "enum" && to.type === "enum") {
+		const [fromValues, toValues] = [getEnumValues(from, models.from) ?? [], getEnumValues(to, models.to) ?? []];
+		return fromValues.every((value) => toValues.includes(value));
+	}
+	return false;
+}
 
-function mapFieldTypeToSQL(fieldType: string, dialect: Dialect): string {
-	const typeMap = {
-		[Dialect.POSTGRESQL]: {
-			string: "TEXT",
-			number: "NUMERIC",
-			boolean: "BOOLEAN",
-			object: "JSONB",
-			date: "DATE",
-			datetime: "TIMESTAMP WITH TIME ZONE",
-			uuid: "UUID",
-		},
-		[Dialect.SQLITE_MINIMAL]: {
-			string: "TEXT",
-			number: "REAL",
-			boolean: "INTEGER",
-			object: "TEXT", // SQLite doesn't have native JSON type
-			date: "TEXT",
-			datetime: "TEXT",
-			uuid: "TEXT",
-		},
-		[Dialect.SQLITE_EXTENSIONS]: {
-			string: "TEXT",
-			number: "REAL",
-			boolean: "INTEGER",
-			object: "JSON", // SQLite with extensions has JSON type
-			date: "TEXT",
-			datetime: "TEXT",
-			uuid: "TEXT",
-		},
-	};
+// A foreign key is tighter when it is new, references other fields, or stops cascading or nulling on changes
+function isTighterForeignKey(from: Field["foreignKey"], to: Field["foreignKey"]): boolean {
+	if (!to) return false;
+	if (!from || from.table !== to.table || from.field !== to.field) return true;
 
-	return typeMap[dialect][fieldType as keyof (typeof typeMap)[typeof dialect]] || "TEXT";
+	const isLoose = (action: string | undefined) => action === "cascade" || action === "set_null";
+	return (isLoose(from.onDelete) && !isLoose(to.onDelete)) || (isLoose(from.onUpdate) && !isLoose(to.onUpdate));
 }
 
-function generateCreateTableSQL(table: DataModel["tables"][number], dialect: Dialect): string {
-	const columns = table.fields.map((field) => {
-		const parts = [`"${field.name}"`, mapFieldTypeToSQL(field.type, dialect)];
+function classifyUnsafeChanges(tableDiff: TableDiff, enumDiff: EnumDiff, models: MigrationModels): UnsafeChange[] {
+	const changes: UnsafeChange[] = [];
 
-		if (field.primaryKey) parts.push("PRIMARY KEY");
-		if (field.nonNullable && !field.primaryKey) parts.push("NOT NULL");
-		if (field.default !== undefined) parts.push(`DEFAULT ${formatDefaultValue(field.default, dialect)}`);
+	for (const table of tableDiff.removed) {
+		changes.push(createUnsafeChange("drop_table", "data_loss", table.name, undefined, `Table "${table.name}" is dropped`));
+	}
 
-		return `  ${parts.join(" ")}`;
-	});
+	// Removed values are reported for each field using the enum, as the rows holding them fail the conversion
+	for (const { name, valuesRemoved, fields } of enumDiff.modified.filter((m) => m.valuesRemoved.length > 0)) {
+		const values = valuesRemoved.map((value) => `"${value}"`).join(", ");
+		for (const { table, field } of fields.filter((f) => !tableDiff.removed.some((t) => t.name === f.table))) {
+			const message = `Values ${values} are removed from enum "${name}", which fails if field "${field.name}" holds them`;
+			changes.push(createUnsafeChange("remove_enum_value", "may_fail", table, field.name, message));
+		}
+	}
+
+	for (const modification of tableDiff.modified) {
+		const { tableName } = modification;
+
+		for (const field of modification.fieldsRemoved) {
+			changes.push(createUnsafeChange("drop_column", "data_loss", tableName, field.name, `Field "${field.name}" is dropped`));
+		}
+
+		for (const field of modification.fieldsAdded) {
+			const hasValue = field.default !== undefined || field.migrate?.backfill !== undefined || field.generated !== undefined;
+			if (field.nonNullable && !hasValue) {
+				const message = `Non-nullable field "${field.name}" has no default, adding it fails on non-empty tables`;
+				changes.push(createUnsafeChange("set_not_null", "may_fail", tableName, field.name, message));
+			}
+		}
+
+		for (const { field, changes: fieldChanges } of modification.fieldsModified) {
+			if (fieldChanges.type && !isSafeCast(fieldChanges.type.from, fieldChanges.type.to, models)) {
+				const { from, to } = fieldChanges.type;
+				const message = `Converting field "${field.name}" from ${formatFieldType(from)} to ${formatFieldType(to)} may fail or lose data`;
+				changes.push(createUnsafeChange("alter_type", "may_fail", tableName, field.name, message));
+			}
+			if (fieldChanges.nonNullable?.to && field.migrate?.backfill === undefined) {
+				const message = `Field "${field.name}" becomes non-nullable, which fails if it has null values`;
+				changes.push(createUnsafeChange("set_not_null", "may_fail", tableName, field.name, message));
+			}
+			if (fieldChanges.unique?.to) {
+				const message = `Field "${field.name}" becomes unique, which fails if it has duplicate values`;
+				changes.push(createUnsafeChange("add_unique", "may_fail", tableName, field.name, message));
+			}
+			if (fieldChanges.generated?.to && fieldChanges.generated.from === undefined) {
+				const message = `Field "${field.name}" becomes generated, its current values are replaced`;
+				changes.push(createUnsafeChange("generate_column", "data_loss", tableName, field.name, message));
+			}
+			if (fieldChanges.foreignKey && isTighterForeignKey(fieldChanges.foreignKey.from, fieldChanges.foreignKey.to)) {
+				const message = `Foreign key of field "${field.name}" is tightened, existing or future rows may violate it`;
+				changes.push(createUnsafeChange("tighten_foreign_key", "may_fail", tableName, field.name, message));
+			}
+		}
+
+		for (const constraint of modification.constraintsAdded) {
+			const message = `Constraint "${constraint.name}" is added, which fails if existing rows violate it`;
+			changes.push(createUnsafeChange("add_constraint", "may_fail", tableName, constraint.name, message));
+		}
+
+		for (const index of modification.indexesAdded.filter((i) => i.unique)) {
+			const indexName = getIndexName(tableName, index);
+			const message = `Unique index "${indexName}" is added, which fails if it has duplicate values`;
+			changes.push(createUnsafeChange("add_unique", "may_fail", tableName, indexName, message));
+		}
+	}
+
+	return changes;
+}
+
+// SQL Generation Functions
+
+function generateCreateTableStatements(table: Table, model: DataModel, dialect: Dialect): MigrationStatement[] {
+	const primaryKey = getPrimaryKey(table);
+	const inlinePrimaryKey = primaryKey.length === 1 ? primaryKey[0] : undefined;
+	const columns = table.fields.map(
+		(field) => `  ${generateColumnDefinitionSQL(table.name, field, model, dialect, field.name === inlinePrimaryKey)}`,
+	);
+
+	const constraints: string[] = [];
+	if (primaryKey.length > 1) constraints.push(`  PRIMARY KEY (${quoteIdentifiers(primaryKey)})`);
+	for (const check of table.checks ?? []) {
+		constraints.push(`  CONSTRAINT "${check.name}" ${generateCheckClause(table.name, check.condition, model, dialect)}`);
+	}
 
 	// For SQLite, add foreign key constraints inline
-	const foreignKeys: string[] = [];
-	if (dialect === Dialect.SQLITE_MINIMAL || dialect === Dialect.SQLITE_EXTENSIONS) {
+	if (isSQLite(dialect)) {
 		for (const field of table.fields) {
-			if (field.foreignKey) {
-				let foreignKeyClause = `  FOREIGN KEY ("${field.name}") REFERENCES "${field.foreignKey.table}" ("${field.foreignKey.field}")`;
-
-				if (field.foreignKey.onDelete)
-					foreignKeyClause += ` ON DELETE ${field.foreignKey.onDelete.toUpperCase().replace(" ", " ")}`;
-				if (field.foreignKey.onUpdate)
-					foreignKeyClause += ` ON UPDATE ${field.foreignKey.onUpdate.toUpperCase().replace(" ", " ")}`;
-				foreignKeys.push(foreignKeyClause);
-			}
+			if (field.foreignKey) constraints.push(`  ${generateForeignKeyClause(toTableForeignKey(field.name, field.foreignKey))}`);
 		}
+		for (const foreignKey of table.foreignKeys ?? []) constraints.push(`  ${generateForeignKeyClause(foreignKey)}`);
+	}
+
+	const allColumns = [...columns, ...constraints];
+	const statements = [
+		createStatement("create_table", table.name, `CREATE TABLE "${table.name}" (\n${allColumns.join(",\n")}\n);`),
+	];
+
+	if (dialect === Dialect.POSTGRESQL && hasRowLevelSecurity(table)) {
+		statements.push(createStatement("enable_rls", table.name, `ALTER TABLE "${table.name}" ENABLE ROW LEVEL SECURITY;`));
+	}
+	if (dialect === Dialect.POSTGRESQL && table.forceRowLevelSecurity) {
+		statements.push(createStatement("force_rls", table.name, `ALTER TABLE "${table.name}" FORCE ROW LEVEL SECURITY;`));
+	}
+	return statements;
+}
+
+/**
+ * Drop tables, referencing tables first. Foreign keys that would still point at a dropped table, either from a table
+ * of the same reference cycle or from a remaining table losing the reference, are dropped beforehand.
+ */
+function generateDropTablesStatements(
+	tables: Table[],
+	modifications: TableModification[],
+	dialect: Dialect,
+): MigrationStatement[] {
+	const { tables: sortedTables, cycles } = sortTablesByDependencies(tables);
+	const droppedNames = new Set(tables.map((table) => table.name));
+	const cyclicNames = new Set(cycles.flat());
+
+	const detachedForeignKeys = [
+		...tables
+			.filter((table) => cyclicNames.has(table.name))
+			.flatMap((table) => [
+				...table.fields
+					.filter((f) => f.foreignKey)
+					.map((field) => ({
+						tableName: table.name,
+						constraintName: getFieldConstraintName("foreignKey", table.name, field.name),
+					})),
+				...(table.foreignKeys ?? []).map((foreignKey) => ({
+					tableName: table.name,
+					constraintName: getForeignKeyName(table.name, foreignKey),
+				})),
+			]),
+		...modifications.flatMap((modification) => [
+			...[
+				...modification.fieldsRemoved.map((field) => ({ field, foreignKey: field.foreignKey })),
+				...modification.fieldsModified.map(({ field, changes }) => ({ field, foreignKey: changes.foreignKey?.from })),
+			]
+				.filter(({ foreignKey }) => foreignKey && droppedNames.has(foreignKey.table))
+				.map(({ field }) => ({
+					tableName: modification.tableName,
+					constraintName: getFieldConstraintName("foreignKey", modification.tableName, field.name),
+				})),
+			...modification.constraintsRemoved
+				.filter((constraint) => constraint.kind === "foreignKey" && droppedNames.has(constraint.foreignKey.references.table))
+				.map((constraint) => ({ tableName: modification.tableName, constraintName: constraint.name })),
+		]),
+	];
+
+	const dropStatements = sortedTables
+		.reverse()
+		.flatMap((table) => [
+			createStatement("drop_table", table.name, `DROP TABLE IF EXISTS "${table.name}";`, { destructive: true }),
+			...table.fields
+				.filter((field) => field.autoUpdate)
+				.flatMap((field) => generateDropAutoUpdateStatements(table.name, field.name, dialect, { tableDropped: true })),
+		]);
+	const [firstDropped] = dropStatements;
+	if (detachedForeignKeys.length === 0 || !firstDropped) return dropStatements;
+
+	// SQLite foreign keys cannot be dropped on their own, so their enforcement is disabled during the drops instead
+	if (isSQLite(dialect)) {
+		return [
+			createStatement("pragma", firstDropped.table, "PRAGMA foreign_keys=OFF;", { transactional: false }),
+			...dropStatements,
+			createStatement("pragma", firstDropped.table, "PRAGMA foreign_keys=ON;", { transactional: false }),
+		];
 	}
 
-	const allColumns = [...columns, ...foreignKeys];
-	const sql = `CREATE TABLE "${table.name}" (\n${allColumns.join(",\n")}\n);`;
+	return [
+		...detachedForeignKeys.map(({ tableName, constraintName }) => generateDropForeignKeyStatement(tableName, constraintName)),
+		...dropStatements,
+	];
+}
+
+function toTableForeignKey(fieldName: string, { table, field, ...actions }: NonNullable<Field["foreignKey"]>): TableForeignKey {
+	return { columns: [fieldName], references: { table, columns: [field] }, ...actions };
+}
+
+function generateForeignKeyClause({ columns, references, onDelete, onUpdate }: TableForeignKey): string {
+	let clause = `FOREIGN KEY (${quoteIdentifiers(columns)}) REFERENCES "${references.table}" (${quoteIdentifiers(references.columns)})`;
+
+	if (onDelete) clause += ` ON DELETE ${onDelete.toUpperCase().replace("_", " ")}`;
+	if (onUpdate) clause += ` ON UPDATE ${onUpdate.toUpperCase().replace("_", " ")}`;
+	return clause;
+}
 
-	if (dialect === Dialect.POSTGRESQL) return `${sql}\n\nALTER TABLE "${table.name}" ENABLE ROW LEVEL SECURITY;`;
-	return sql;
+function generateCheckClause(tableName: string, condition: Condition, model: DataModel, dialect: Dialect): string {
+	const state: ParserState = {
+		config: createParserConfig(model, dialect),
+		rootTable: tableName,
+		expressions: new ExpressionTypeMap(),
+	};
+	return `CHECK (${parseCondition(condition, state)})`;
 }
 
-function generateAddColumnSQL(tableName: string, field: Field, dialect: Dialect): string {
-	const parts = [`ALTER TABLE "${tableName}"`, "ADD COLUMN", `"${field.name}"`, mapFieldTypeToSQL(field.type, dialect)];
+// Only PostgreSQL (SQLite foreign keys are declared inline in CREATE TABLE)
+function generateAddForeignKeyStatement(
+	tableName: string,
+	fieldName: string,
+	foreignKey: NonNullable<Field["foreignKey"]>,
+): MigrationStatement {
+	const constraintName = getFieldConstraintName("foreignKey", tableName, fieldName);
+	const sql = `ALTER TABLE "${tableName}" ADD CONSTRAINT "${constraintName}" ${generateForeignKeyClause(toTableForeignKey(fieldName, foreignKey))};`;
+	return createStatement("add_fk", tableName, sql, { column: fieldName });
+}
+
+function generateDropForeignKeyStatement(tableName: string, constraintName: string, fieldName?: string): MigrationStatement {
+	const sql = `ALTER TABLE "${tableName}" DROP CONSTRAINT IF EXISTS "${constraintName}";`;
+	return createStatement("drop_fk", tableName, sql, fieldName === undefined ? {} : { column: fieldName });
+}
 
-	if (field.nonNullable) {
-		parts.push("NOT NULL");
+function generateTableForeignKeysStatements(table: Table): MigrationStatement[] {
+	return [
+		...table.fields.flatMap((field) =>
+			field.foreignKey ? [generateAddForeignKeyStatement(table.name, field.name, field.foreignKey)] : [],
+		),
+		...(table.foreignKeys ?? []).map((foreignKey) =>
+			createStatement(
+				"add_fk",
+				table.name,
+				`ALTER TABLE "${table.name}" ADD CONSTRAINT "${getForeignKeyName(table.name, foreignKey)}" ${generateForeignKeyClause(foreignKey)};`,
+			),
+		),
+	];
+}
+
+// Only PostgreSQL (SQLite tables are rebuilt instead)
+function generateAddConstraintStatement(tableName: string, constraint: TableConstraint, model: DataModel): MigrationStatement {
+	const prefix = `ALTER TABLE "${tableName}" ADD CONSTRAINT "${constraint.name}"`;
+
+	switch (constraint.kind) {
+		case "primaryKey":
+			return createStatement("add_constraint", tableName, `${prefix} PRIMARY KEY (${quoteIdentifiers(constraint.columns)});`);
+		case "foreignKey":
+			return createStatement("add_fk", tableName, `${prefix} ${generateForeignKeyClause(constraint.foreignKey)};`);
+		case "check":
+			return createStatement(
+				"add_constraint",
+				tableName,
+				`${prefix} ${generateCheckClause(tableName, constraint.condition, model, Dialect.POSTGRESQL)};`,
+			);
+	}
+}
+
+function generateRenameTableStatements(
+	{ from, to }: Rename<Table>,
+	model: DataModel,
+	dialect: Dialect,
+	options: MigrationOptions,
+): MigrationStatement[] {
+	const statements = [createStatement("rename_table", to.name, `ALTER TABLE "${from.name}" RENAME TO "${to.name}";`)];
+	for (const field of from.fields.filter((f) => f.autoUpdate)) {
+		const fromTrigger = { table: from.name, field: field.name };
+		statements.push(...generateRenameAutoUpdateStatements(fromTrigger, { table: to.name, field: field.name }, dialect));
 	}
 
-	if (field.default !== undefined) {
-		parts.push(`DEFAULT ${formatDefaultValue(field.default, dialect)}`);
+	// Indexes keep their names, which are derived from the table name unless set, and SQLite cannot rename them
+	for (const index of (from.indexes ?? []).filter((i) => i.name === undefined)) {
+		const [fromName, toName] = [getIndexName(from.name, index), getIndexName(to.name, index)];
+		if (dialect === Dialect.POSTGRESQL)
+			statements.push(createStatement("rename_index", to.name, `ALTER INDEX "${fromName}" RENAME TO "${toName}";`));
+		else
+			statements.push(
+				createStatement("drop_index", to.name, `DROP INDEX IF EXISTS "${fromName}";`),
+				generateCreateIndexStatement({ ...from, name: to.name }, index, model, dialect, options),
+			);
 	}
+	const renameConstraint = (fromName: string, toName: string) =>
+		createStatement("rename_constraint", to.name, `ALTER TABLE "${to.name}" RENAME CONSTRAINT "${fromName}" TO "${toName}";`);
+
+	// PostgreSQL keeps constraints and policies on the renamed table, but their names are derived from the table name
+	if (dialect === Dialect.POSTGRESQL) {
+		for (const field of from.fields.filter((f) => f.foreignKey)) {
+			statements.push(
+				renameConstraint(
+					getFieldConstraintName("foreignKey", from.name, field.name),
+					getFieldConstraintName("foreignKey", to.name, field.name),
+				),
+			);
+		}
 
-	return `${parts.join(" ")};`;
+		for (const field of from.fields.filter((f) => f.unique && !f.primaryKey)) {
+			statements.push(
+				renameConstraint(
+					getFieldConstraintName("unique", from.name, field.name),
+					getFieldConstraintName("unique", to.name, field.name),
+				),
+			);
+		}
+
+		for (const field of from.fields.filter((f) => f.values)) {
+			statements.push(
+				renameConstraint(
+					getFieldConstraintName("check", from.name, field.name),
+					getFieldConstraintName("check", to.name, field.name),
+				),
+			);
+		}
+
+		for (const foreignKey of (from.foreignKeys ?? []).filter((fk) => fk.name === undefined)) {
+			statements.push(renameConstraint(getForeignKeyName(from.name, foreignKey), getForeignKeyName(to.name, foreignKey)));
+		}
+
+		if (getPrimaryKey(from).length > 0) statements.push(renameConstraint(`${from.name}_pkey`, `${to.name}_pkey`));
+
+		for (const operation of from.accessControl && hasRowLevelSecurity(from) ? policyOperations : []) {
+			const sql = `ALTER POLICY "${from.name}_${operation}_policy" ON "${to.name}" RENAME TO "${to.name}_${operation}_policy";`;
+			statements.push(createStatement("rename_policy", to.name, sql));
+		}
+	}
+
+	return statements;
+}
+
+function generateRenameColumnStatements(tableName: string, { from, to }: Rename<Field>, dialect: Dialect): MigrationStatement[] {
+	const sql = `ALTER TABLE "${tableName}" RENAME COLUMN "${from.name}" TO "${to.name}";`;
+	const statements = [createStatement("rename_column", tableName, sql, { column: to.name })];
+	if (from.autoUpdate) {
+		const fromTrigger = { table: tableName, field: from.name };
+		statements.push(
+			...(to.autoUpdate
+				? generateRenameAutoUpdateStatements(fromTrigger, { table: tableName, field: to.name }, dialect)
+				: generateDropAutoUpdateStatements(tableName, from.name, dialect)),
+		);
+	}
+
+	if (dialect === Dialect.POSTGRESQL) {
+		const hasConstraint = {
+			foreignKey: from.foreignKey !== undefined,
+			unique: from.unique === true && !from.primaryKey,
+			check: from.values !== undefined,
+		};
+		for (const kind of (["foreignKey", "unique", "check"] as const).filter((k) => hasConstraint[k])) {
+			const [fromName, toName] = [from.name, to.name].map((name) => getFieldConstraintName(kind, tableName, name));
+			const sql = `ALTER TABLE "${tableName}" RENAME CONSTRAINT "${fromName}" TO "${toName}";`;
+			statements.push(createStatement("rename_constraint", tableName, sql, { column: to.name }));
+		}
+	}
+
+	return statements;
+}
+
+// Primary keys are only declared inline when they cover a single column, and are otherwise table constraints
+function generateColumnDefinitionSQL(
+	tableName: string,
+	field: Field,
+	model: DataModel,
+	dialect: Dialect,
+	primaryKey = false,
+): string {
+	const parts = [`"${field.name}"`, mapFieldTypeToSQL(field, dialect)];
+	const columnDefault = generateColumnDefaultSQL(field, dialect);
+
+	if (field.autoIncrement && dialect === Dialect.POSTGRESQL) parts.push("GENERATED BY DEFAULT AS IDENTITY");
+	// PostgreSQL only supports stored generated columns
+	if (field.generated) {
+		const expression = generateRowExpressionSQL(tableName, field.generated.expression, model, dialect);
+		const storage = field.generated.stored || dialect === Dialect.POSTGRESQL ? "STORED" : "VIRTUAL";
+		parts.push(`GENERATED ALWAYS AS (${expression}) ${storage}`);
+	}
+	if (primaryKey) parts.push(field.autoIncrement && isSQLite(dialect) ? "PRIMARY KEY AUTOINCREMENT" : "PRIMARY KEY");
+	if (field.nonNullable && !primaryKey) parts.push("NOT NULL");
+	// Unique constraints are named on PostgreSQL so that they can be dropped later on, SQLite rebuilds the table instead
+	if (field.unique && !field.primaryKey)
+		parts.push(isSQLite(dialect) ? "UNIQUE" : `CONSTRAINT "${getFieldConstraintName("unique", tableName, field.name)}" UNIQUE`);
+	if (columnDefault !== undefined) parts.push(`DEFAULT ${columnDefault}`);
+	// Values of native PostgreSQL enums are checked by their type
+	const values = isSQLite(dialect) ? getEnumValues(field, model) : field.values;
+	if (values) {
+		const check = generateValuesCheckClause(field.name, values, dialect);
+		parts.push(isSQLite(dialect) ? check : `CONSTRAINT "${getFieldConstraintName("check", tableName, field.name)}" ${check}`);
+	}
+
+	return parts.join(" ");
+}
+
+// SQLite has no uuid function, random version 4 uuids are formatted from random bytes instead
+const SQLITE_RANDOM_UUID = `(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))))`;
+
+function generateColumnDefaultSQL(field: Field, dialect: Dialect): string | undefined {
+	if (field.autoGenerate) return isSQLite(dialect) ? SQLITE_RANDOM_UUID : "gen_random_uuid()";
+	return field.default === undefined ? undefined : formatDefaultValue(field.default, dialect);
+}
+
+function generateTableTriggersStatements(table: Table, dialect: Dialect): MigrationStatement[] {
+	return table.fields
+		.filter((field) => field.autoUpdate)
+		.flatMap((field) => generateCreateAutoUpdateStatements(table.name, field.name, dialect));
 }
-function generateAlterColumnSQL(tableName: string, field: Field, changes: FieldChange, dialect: Dialect): string {
-	const sqlParts: string[] = [];
+
+function generateValuesCheckClause(fieldName: string, values: string[], dialect: Dialect): string {
+	return `CHECK ("${fieldName}" IN (${values.map((value) => formatDefaultValue(value, dialect)).join(", ")}))`;
+}
+
+function generateAddColumnStatement(tableName: string, field: Field, model: DataModel, dialect: Dialect): MigrationStatement {
+	const sql = `ALTER TABLE "${tableName}" ADD COLUMN ${generateColumnDefinitionSQL(tableName, field, model, dialect)};`;
+	return createStatement("add_column", tableName, sql, { column: field.name });
+}
+
+// PostgreSQL cannot build or drop indexes concurrently inside a transaction
+function generateCreateIndexStatement(
+	table: Table,
+	index: Index,
+	model: DataModel,
+	dialect: Dialect,
+	options: MigrationOptions,
+): MigrationStatement {
+	const concurrent = dialect === Dialect.POSTGRESQL && options.concurrentIndexes === true;
+	const method = dialect === Dialect.POSTGRESQL && index.method ? ` USING ${index.method.toUpperCase()}` : "";
+	let sql = `CREATE${index.unique ? " UNIQUE" : ""} INDEX${concurrent ? " CONCURRENTLY" : ""} "${getIndexName(table.name, index)}" ON "${table.name}"${method} (${quoteIdentifiers(index.columns)})`;
+
+	if (index.where !== undefined) {
+		const state: ParserState = {
+			config: createParserConfig(model, dialect),
+			rootTable: table.name,
+			expressions: new ExpressionTypeMap(),
+		};
+		sql += ` WHERE ${parseCondition(index.where, state)}`;
+	}
+
+	return createStatement("create_index", table.name, `${sql};`, { transactional: !concurrent });
+}
+
+// The indexes and table constraints PostgreSQL drops along with columns, conditions referencing them by their quoted name
+function getColumnDependents(table: Table, columns: string[], model: DataModel) {
+	if (columns.length === 0) return { indexes: [], constraints: [] };
+	const references = (sql: string) => columns.some((column) => sql.includes(`"${column}"`));
+	const includesColumn = (names: string[]) => names.some((name) => columns.includes(name));
+
+	const indexes = (table.indexes ?? []).filter((index) => {
+		if (includesColumn(index.columns)) return true;
+		if (index.where === undefined) return false;
+		const { sql } = generateCreateIndexStatement(table, index, model, Dialect.POSTGRESQL, {});
+		return references(sql.slice(sql.indexOf(" WHERE ")));
+	});
+	const constraints = getTableConstraints(table).filter((constraint) => {
+		if (constraint.kind === "primaryKey") return includesColumn(constraint.columns);
+		if (constraint.kind === "foreignKey") return includesColumn(constraint.foreignKey.columns);
+		return references(generateCheckClause(table.name, constraint.condition, model, Dialect.POSTGRESQL));
+	});
+
+	return { indexes, constraints };
+}
+
+function generateDropIndexStatement(
+	tableName: string,
+	index: Index,
+	dialect: Dialect,
+	options: MigrationOptions,
+): MigrationStatement {
+	const concurrent = dialect === Dialect.POSTGRESQL && options.concurrentIndexes === true;
+	const sql = `DROP INDEX${concurrent ? " CONCURRENTLY" : ""} IF EXISTS "${getIndexName(tableName, index)}";`;
+	return createStatement("drop_index", tableName, sql, { transactional: !concurrent });
+}
+
+function generateTableIndexesStatements(
+	table: Table,
+	model: DataModel,
+	dialect: Dialect,
+	options: MigrationOptions,
+): MigrationStatement[] {
+	return (table.indexes ?? []).map((index) => generateCreateIndexStatement(table, index, model, dialect, options));
+}
+
+// Literals are formatted like defaults, expressions can reference the other fields of the row, as in backfills and
+// generated fields
+function generateRowExpressionSQL(tableName: string, value: AnyExpression, model: DataModel, dialect: Dialect): string {
+	if (typeof value !== "object" || value === null) return formatDefaultValue(value, dialect);
+
+	const state: ParserState = {
+		config: createParserConfig(model, dialect),
+		rootTable: tableName,
+		expressions: new ExpressionTypeMap(),
+	};
+	return parseExpression(normalizeExpression(value), state);
+}
+
+function generateBackfillStatement(
+	tableName: string,
+	fieldName: string,
+	value: AnyExpression,
+	model: DataModel,
+	dialect: Dialect,
+): MigrationStatement {
+	const sql = `UPDATE "${tableName}" SET "${fieldName}" = ${generateRowExpressionSQL(tableName, value, model, dialect)} WHERE "${fieldName}" IS NULL;`;
+	return createStatement("backfill", tableName, sql, { column: fieldName });
+}
+
+// Only PostgreSQL (SQLite tables are rebuilt instead)
+function generateAlterColumnStatements(
+	tableName: string,
+	field: Field,
+	changes: FieldChange,
+	models: MigrationModels,
+): MigrationStatement[] {
+	const statements: MigrationStatement[] = [];
+	const column = field.name;
+	const model = models.to;
+
+	// Generated fields keep their values as regular fields
+	if (changes.generated) {
+		const sql = `ALTER TABLE "${tableName}" ALTER COLUMN "${column}" DROP EXPRESSION;`;
+		statements.push(createStatement("drop_expression", tableName, sql, { column }));
+	}
 
 	if (changes.type) {
-		const newType = mapFieldTypeToSQL(changes.type.to, dialect);
-		if (dialect === Dialect.POSTGRESQL) {
-			sqlParts.push(`ALTER TABLE "${tableName}" ALTER COLUMN "${field.name}" TYPE ${newType};`);
-		} else {
-			const newColumnName = `${field.name}_${Date.now()}_new`;
-			sqlParts.push(`ALTER TABLE "${tableName}" ADD COLUMN "${newColumnName}" ${newType};`);
-			sqlParts.push(`UPDATE "${tableName}" SET "${newColumnName}" = CAST("${field.name}" AS ${newType});`);
-			sqlParts.push(`ALTER TABLE "${tableName}" DROP COLUMN "${field.name}";`);
-			sqlParts.push(`ALTER TABLE "${tableName}" RENAME COLUMN "${newColumnName}" TO "${field.name}";`);
+		const { from, to, using } = changes.type;
+		const valuesConstraint = getFieldConstraintName("check", tableName, column);
+		const newType = mapFieldTypeToSQL(to, Dialect.POSTGRESQL);
+
+		// Enum values are checked by a constraint, which is dropped while the column is converted
+		if (from.values) {
+			const sql = `ALTER TABLE "${tableName}" DROP CONSTRAINT IF EXISTS "${valuesConstraint}";`;
+			statements.push(createStatement("drop_constraint", tableName, sql, { column }));
+		}
+		if (mapFieldTypeToSQL(from, Dialect.POSTGRESQL) !== newType || using !== undefined) {
+			const conversion = generateConversionSQL(tableName, column, changes.type, model, Dialect.POSTGRESQL);
+			const sql = `ALTER TABLE "${tableName}" ALTER COLUMN "${column}" TYPE ${newType} USING ${conversion};`;
+			const destructive = !isSafeCast(from, to, models);
+			statements.push(createStatement("alter_type", tableName, sql, { column, destructive }));
+		}
+		if (to.values) {
+			const sql = `ALTER TABLE "${tableName}" ADD CONSTRAINT "${valuesConstraint}" ${generateValuesCheckClause(column, to.values, Dialect.POSTGRESQL)};`;
+			statements.push(createStatement("add_constraint", tableName, sql, { column }));
 		}
 	}
 
+	const backfill = field.migrate?.backfill;
+	if (changes.nonNullable?.to && backfill !== undefined)
+		statements.push(generateBackfillStatement(tableName, column, backfill, model, Dialect.POSTGRESQL));
+
 	if (changes.nonNullable) {
-		if (dialect === Dialect.POSTGRESQL) {
-			const constraint = changes.nonNullable.to ? "SET NOT NULL" : "DROP NOT NULL";
-			sqlParts.push(`ALTER TABLE "${tableName}" ALTER COLUMN "${field.name}" ${constraint};`);
-		}
+		const constraint = changes.nonNullable.to ? "SET NOT NULL" : "DROP NOT NULL";
+		const sql = `ALTER TABLE "${tableName}" ALTER COLUMN "${column}" ${constraint};`;
+		statements.push(createStatement("alter_nullability", tableName, sql, { column }));
 	}
 
-	if (changes.default) {
-		if (dialect === Dialect.POSTGRESQL) {
-			if (changes.default.to === undefined) {
-				sqlParts.push(`ALTER TABLE "${tableName}" ALTER COLUMN "${field.name}" DROP DEFAULT;`);
-			} else {
-				sqlParts.push(
-					`ALTER TABLE "${tableName}" ALTER COLUMN "${field.name}" SET DEFAULT ${formatDefaultValue(changes.default.to, dialect)};`,
-				);
+	if (changes.unique) {
+		const constraintName = getFieldConstraintName("unique", tableName, column);
+		statements.push(
+			changes.unique.to
+				? createStatement(
+						"add_constraint",
+						tableName,
+						`ALTER TABLE "${tableName}" ADD CONSTRAINT "${constraintName}" UNIQUE ("${column}");`,
+						{ column },
+					)
+				: createStatement(
+						"drop_constraint",
+						tableName,
+						`ALTER TABLE "${tableName}" DROP CONSTRAINT IF EXISTS "${constraintName}";`,
+						{ column },
+					),
+		);
+	}
+
+	if (changes.default || changes.autoGenerate) {
+		const columnDefault = generateColumnDefaultSQL(field, Dialect.POSTGRESQL);
+		const sql =
+			columnDefault === undefined
+				? `ALTER TABLE "${tableName}" ALTER COLUMN "${column}" DROP DEFAULT;`
+				: `ALTER TABLE "${tableName}" ALTER COLUMN "${column}" SET DEFAULT ${columnDefault};`;
+		statements.push(createStatement("alter_default", tableName, sql, { column }));
+	}
+
+	// Identities start after the existing values
+	if (changes.autoIncrement?.to) {
+		statements.push(
+			createStatement(
+				"alter_identity",
+				tableName,
+				`ALTER TABLE "${tableName}" ALTER COLUMN "${column}" ADD GENERATED BY DEFAULT AS IDENTITY;`,
+				{ column },
+			),
+			createStatement(
+				"alter_identity",
+				tableName,
+				`SELECT setval(pg_get_serial_sequence('"${tableName}"', '${column}'), COALESCE(MAX("${column}"), 0) + 1, false) FROM "${tableName}";`,
+				{ column },
+			),
+		);
+	}
+	if (changes.autoIncrement?.from) {
+		const sql = `ALTER TABLE "${tableName}" ALTER COLUMN "${column}" DROP IDENTITY IF EXISTS;`;
+		statements.push(createStatement("alter_identity", tableName, sql, { column }));
+	}
+
+	if (changes.autoUpdate)
+		statements.push(
+			...(changes.autoUpdate.to
+				? generateCreateAutoUpdateStatements(tableName, column, Dialect.POSTGRESQL)
+				: generateDropAutoUpdateStatements(tableName, column, Dialect.POSTGRESQL)),
+		);
+
+	return statements;
+}
+
+// Only SQLite, the tables kept by a migration that use a changed enum
+function getEnumTables(diff: DatabaseDiff, model: DataModel): Set<string> {
+	const modifiedEnums = new Set(diff.enums.modified.map((modification) => modification.name));
+	const tables = model.tables.filter(
+		(table) =>
+			!diff.tables.added.some((t) => t.name === table.name) &&
+			table.fields.some((f) => f.enum !== undefined && modifiedEnums.has(f.enum)),
+	);
+	return new Set(tables.map((table) => table.name));
+}
+
+function createEmptyModification(tableName: string): TableModification {
+	return {
+		tableName,
+		fieldsAdded: [],
+		fieldsRemoved: [],
+		fieldsRenamed: [],
+		fieldsModified: [],
+		constraintsAdded: [],
+		constraintsRemoved: [],
+		indexesAdded: [],
+		indexesRemoved: [],
+		accessControlChanged: false,
+	};
+}
+
+/**
+ * SQLite cannot alter existing columns, and cannot add or drop key columns
+ */
+function requiresTableRebuild(modification: TableModification): boolean {
+	return (
+		modification.fieldsModified.length > 0 ||
+		modification.constraintsAdded.length > 0 ||
+		modification.constraintsRemoved.length > 0 ||
+		modification.fieldsAdded.some(
+			(f) =>
+				f.primaryKey ||
+				f.unique ||
+				f.foreignKey ||
+				f.autoGenerate ||
+				f.generated?.stored ||
+				(f.nonNullable && f.default === undefined),
+		) ||
+		modification.fieldsRemoved.some((f) => f.primaryKey || f.unique || f.foreignKey)
+	);
+}
+
+/**
+ * Rebuild a SQLite table from its target definition, following https://www.sqlite.org/lang_altertable.html#otheralter
+ */
+function generateRebuildTableStatements(
+	table: Table,
+	modification: TableModification,
+	model: DataModel,
+	enums: EnumDiff,
+	dialect: Dialect,
+): MigrationStatement[] {
+	const temporaryName = `new_${table.name}`;
+	// Check constraints are compiled against the temporary table, SQLite updates their references when it is renamed
+	const temporaryModel = {
+		...model,
+		tables: model.tables.map((t) => (t.name === table.name ? { ...t, name: temporaryName } : t)),
+	};
+	const addedFields = new Set(modification.fieldsAdded.map((f) => f.name));
+	const typeChanges = new Map(
+		modification.fieldsModified.flatMap(({ field, changes }) => (changes.type ? [[field.name, changes.type] as const] : [])),
+	);
+
+	// Added fields are only copied when backfilled, and backfills fill the null values of the copied fields, while
+	// generated fields are computed again
+	const copiedFields = table.fields.filter(
+		(f) => f.generated === undefined && (!addedFields.has(f.name) || f.migrate?.backfill !== undefined),
+	);
+	const columns = copiedFields.map((f) => `"${f.name}"`).join(", ");
+	const values = copiedFields
+		.map((f) => {
+			const conversion = typeChanges.get(f.name);
+			const backfill =
+				f.migrate?.backfill === undefined ? undefined : generateRowExpressionSQL(table.name, f.migrate.backfill, model, dialect);
+			if (addedFields.has(f.name) && backfill !== undefined) return backfill;
+
+			const valueRenames = enums.modified.find((m) => m.name === f.enum)?.valuesRenamed ?? [];
+			const value = conversion
+				? generateConversionSQL(table.name, f.name, conversion, model, dialect)
+				: generateEnumValueRenameSQL(`"${f.name}"`, valueRenames, dialect);
+			return backfill !== undefined && f.nonNullable ? `COALESCE(${value}, ${backfill})` : value;
+		})
+		.join(", ");
+	// The previous table is only dropped once copied, but its removed columns and the values lost in casts are gone
+	const destructive = modification.fieldsRemoved.length > 0 || typeChanges.size > 0;
+
+	return [
+		createStatement("pragma", table.name, "PRAGMA foreign_keys=OFF;", { transactional: false }),
+		...generateCreateTableStatements({ ...table, name: temporaryName }, temporaryModel, dialect),
+		createStatement(
+			"copy_data",
+			table.name,
+			`INSERT INTO "${temporaryName}" (${columns}) SELECT ${values} FROM "${table.name}";`,
+		),
+		createStatement("drop_table", table.name, `DROP TABLE "${table.name}";`, { destructive }),
+		createStatement("rename_table", table.name, `ALTER TABLE "${temporaryName}" RENAME TO "${table.name}";`),
+		...generateTableIndexesStatements(table, model, dialect, {}),
+		...generateTableTriggersStatements(table, dialect),
+		// Returns the rows violating foreign keys, which the migration runner rejects before committing
+		createStatement("check_foreign_keys", table.name, `PRAGMA foreign_key_check("${table.name}");`),
+		createStatement("pragma", table.name, "PRAGMA foreign_keys=ON;", { transactional: false }),
+	];
+}
+
+// Only SQLite, renamed enum values are replaced while rows are copied
+function generateEnumValueRenameSQL(column: string, renames: EnumValueRename[], dialect: Dialect): string {
+	if (renames.length === 0) return column;
+
+	const cases = renames.map(
+		({ from, to }) => `WHEN ${formatDefaultValue(from, dialect)} THEN ${formatDefaultValue(to, dialect)}`,
+	);
+	return `CASE ${column} ${cases.join(" ")} ELSE ${column} END`;
+}
+
+// Only PostgreSQL (SQLite checks the values of enum fields with constraints)
+function generateCreateEnumStatement({ name, values }: Enum): MigrationStatement {
+	const sql = `CREATE TYPE "${name}" AS ENUM (${values.map((value) => formatDefaultValue(value, Dialect.POSTGRESQL)).join(", ")});`;
+	return createStatement("create_enum", name, sql);
+}
+
+const ADDED_ENUM_VALUE = /ADD VALUE IF NOT EXISTS ('(?:[^']|'')*')/;
+
+// PostgreSQL adds enum values in transactions since version 12, but a value cannot be used before the transaction adding
+// it commits, so the values used by the following statements are added on their own
+function commitUsedEnumValues(statements: MigrationStatement[]): MigrationStatement[] {
+	return statements.map((statement, index) => {
+		const value = statement.kind === "add_enum_value" ? ADDED_ENUM_VALUE.exec(statement.sql)?.[1] : undefined;
+		const used = value !== undefined && statements.slice(index + 1).some((s) => s.sql.includes(value));
+		return used ? { ...statement, transactional: false } : statement;
+	});
+}
+
+function generateDropEnumStatement({ name }: Pick<Enum, "name">): MigrationStatement {
+	return createStatement("drop_enum", name, `DROP TYPE IF EXISTS "${name}";`);
+}
+
+/**
+ * Create and alter PostgreSQL enums. Values are renamed and added in place, while removing or reordering values
+ * recreates the enum and converts the columns using it through their text representation.
+ */
+function generateEnumsStatements(diff: DatabaseDiff): MigrationStatement[] {
+	const statements = diff.enums.added.map(generateCreateEnumStatement);
+	const quote = (value: string) => formatDefaultValue(value, Dialect.POSTGRESQL);
+
+	for (const modification of diff.enums.modified) {
+		const { name, to, valuesAdded, valuesRenamed } = modification;
+
+		for (const rename of valuesRenamed) {
+			const sql = `ALTER TYPE "${name}" RENAME VALUE ${quote(rename.from)} TO ${quote(rename.to)};`;
+			statements.push(createStatement("rename_enum_value", name, sql));
+		}
+
+		// Added values are used once the transaction adding them commits, see commitUsedEnumValues
+		if (!requiresEnumRecreation(modification)) {
+			for (const value of valuesAdded) {
+				const previous = to[to.indexOf(value) - 1];
+				const next = to.find((v) => !valuesAdded.includes(v));
+				const position =
+					previous !== undefined ? ` AFTER ${quote(previous)}` : next !== undefined ? ` BEFORE ${quote(next)}` : "";
+				const sql = `ALTER TYPE "${name}" ADD VALUE IF NOT EXISTS ${quote(value)}${position};`;
+				statements.push(createStatement("add_enum_value", name, sql));
 			}
+			continue;
+		}
+
+		const previousName = `${name}_old`;
+		statements.push(createStatement("rename_enum", name, `ALTER TYPE "${name}" RENAME TO "${previousName}";`));
+		statements.push(generateCreateEnumStatement({ name, values: to }));
+
+		for (const { table, field } of modification.fields.filter((f) => !diff.tables.removed.some((t) => t.name === f.table))) {
+			const column = field.name;
+			const alterColumn = `ALTER TABLE "${table}" ALTER COLUMN "${column}"`;
+			// Defaults are typed with the previous enum, and are only restored while their value is kept
+			const defaultValue =
+				typeof field.default === "string"
+					? (valuesRenamed.find((rename) => rename.from === field.default)?.to ?? field.default)
+					: undefined;
+
+			if (field.default !== undefined)
+				statements.push(createStatement("alter_default", table, `${alterColumn} DROP DEFAULT;`, { column }));
+			statements.push(
+				createStatement("alter_type", table, `${alterColumn} TYPE "${name}" USING "${column}"::TEXT::"${name}";`, { column }),
+			);
+			if (defaultValue !== undefined && to.includes(defaultValue))
+				statements.push(
+					createStatement("alter_default", table, `${alterColumn} SET DEFAULT ${quote(defaultValue)};`, { column }),
+				);
 		}
+
+		statements.push(generateDropEnumStatement({ name: previousName }));
 	}
 
-	return sqlParts.join("\n");
+	return statements;
 }
 
-// Only PostgreSQL
-function generateRLSPoliciesSQL(accessControlDiff: AccessControlDiff, model: DataModel): string[] {
-	const sqlParts: string[] = [];
-
-	for (const table of accessControlDiff.tables) {
-		const tableName = table.tableName;
+// Only PostgreSQL, policies are dropped if they exist before being created
+function generateRLSPoliciesStatements(
+	accessControlDiff: AccessControlDiff,
+	model: DataModel,
+	options: MigrationOptions,
+): MigrationStatement[] {
+	const statements: MigrationStatement[] = [];
+	const boundVariables = bindVariables(options.variables ?? defaultVariableBindings);
+
+	for (const { tableName, policiesAdded, policiesRemoved, rowLevelSecurity, forceRowLevelSecurity } of accessControlDiff.tables) {
+		if (rowLevelSecurity?.to === false) {
+			statements.push(createStatement("disable_rls", tableName, `ALTER TABLE "${tableName}" DISABLE ROW LEVEL SECURITY;`));
+		}
+		if (rowLevelSecurity?.to === true) {
+			statements.push(createStatement("enable_rls", tableName, `ALTER TABLE "${tableName}" ENABLE ROW LEVEL SECURITY;`));
+		}
+		if (forceRowLevelSecurity) {
+			const [kind, option] = forceRowLevelSecurity.to
+				? (["force_rls", "FORCE"] as const)
+				: (["no_force_rls", "NO FORCE"] as const);
+			statements.push(createStatement(kind, tableName, `ALTER TABLE "${tableName}" ${option} ROW LEVEL SECURITY;`));
+		}
 
-		// Drop existing policies first
-		sqlParts.push(`DROP POLICY IF EXISTS "${tableName}_read_policy" ON "${tableName}";`);
-		sqlParts.push(`DROP POLICY IF EXISTS "${tableName}_create_policy" ON "${tableName}";`);
-		sqlParts.push(`DROP POLICY IF EXISTS "${tableName}_update_policy" ON "${tableName}";`);
-		sqlParts.push(`DROP POLICY IF EXISTS "${tableName}_delete_policy" ON "${tableName}";`);
+		const dropped = new Set([...policiesRemoved, ...policiesAdded].flatMap((policy) => generateDropPolicySQL(tableName, policy)));
+		for (const sql of dropped) statements.push(createStatement("drop_policy", tableName, sql));
 
-		const config = createParserConfig(model, Dialect.POSTGRESQL);
+		const config = createParserConfig(model, Dialect.POSTGRESQL, boundVariables);
 		const state = { rootTable: tableName, expressions: new ExpressionTypeMap(), config };
+		const compileCondition = (condition: Condition) =>
+			substituteRuntimeVariables(parseCondition(condition, state), boundVariables, state);
+		for (const policy of policiesAdded) {
+			for (const sql of generateCreatePolicySQL(tableName, policy, compileCondition)) {
+				statements.push(createStatement("policy", tableName, sql));
+			}
+		}
+	}
 
-		// Create new policies
-		if (table.changes.read) {
-			const condition = parseCondition(table.changes.read.to, state);
-			sqlParts.push(`CREATE POLICY "${tableName}_read_policy" ON "${tableName}" FOR SELECT USING (${condition});`);
-		}
-
-		if (table.changes.create) {
-			const condition = parseCondition(table.changes.create.to, state);
-			sqlParts.push(`CREATE POLICY "${tableName}_create_policy" ON "${tableName}" FOR INSERT WITH CHECK (${condition});`);
-		}
-
-		if (table.changes.update) {
-			const condition = parseCondition(table.changes.update.to, state);
-			sqlParts.push(`CREATE POLICY "${tableName}_update_policy" ON "${tableName}" FOR UPDATE USING (${condition});`);
-		}
-
-		if (table.changes.delete) {
-			const condition = parseCondition(table.changes.delete.to, state);
-			sqlParts.push(`CREATE POLICY "${tableName}_delete_policy" ON "${tableName}" FOR DELETE USING (${condition});`);
-		}
-	}
-
-	return sqlParts;
-}
-
-// Helper function to map our field types to parser field types
-function mapFieldType(fieldType: string): (typeof fieldTypes)[number] {
-	switch (fieldType.toLowerCase()) {
-		case "text":
-		case "string":
-		case "varchar":
-		case "char":
-			return "string";
-		case "int":
-		case "integer":
-		case "bigint":
-		case "smallint":
-		case "decimal":
-		case "numeric":
-		case "real":
-		case "double":
-		case "float":
-			return "number";
-		case "bool":
-		case "boolean":
-			return "boolean";
-		case "json":
-		case "jsonb":
-			return "object";
-		case "date":
-			return "date";
-		case "datetime":
-		case "timestamp":
-		case "timestamptz":
-			return "datetime";
-		case "uuid":
-			return "uuid";
-		default:
-			return "string"; // Default fallback
-	}
-}
-
-// Helper function to create parser configuration from data model
-function createParserConfig(model: DataModel, dialect: Dialect): Config {
+	return statements;
+}
+
+function getAccessControlShape(table: Table, name = table.name) {
 	return {
-		tables: model.tables.reduce<Config["tables"]>((acc, table) => {
-			acc[table.name] = {
-				allowedFields: table.fields.map((field) => ({
-					name: field.name,
-					type: mapFieldType(field.type),
-					nullable: !field.nonNullable,
-					default: field.default,
-				})),
-			};
-			return acc;
-		}, {}),
-		variables: {
-			user_id: { $uuid: "550e8400-e29b-41d4-a716-446655440000" },
-			// Add other common variables that might be used in access control
-		},
-		relationships: model.tables.flatMap((table) =>
-			table.fields
-				.filter((field) => field.foreignKey)
-				.map((field) => ({
-					table: table.name,
-					field: field.name,
-					toTable: field.foreignKey!.table,
-					toField: field.foreignKey!.field,
-					type: "many-to-one" as const,
-				})),
-		),
-		dialect,
+		policies: getTablePolicies({ ...table, name }),
+		rowLevelSecurity: hasRowLevelSecurity(table),
+		forceRowLevelSecurity: table.forceRowLevelSecurity ?? false,
 	};
 }
 
@@ -580,7 +1631,7 @@ function formatDefaultValue(value: AnyExpression | undefined, dialect: Dialect,
 
 	if (typeof value === "boolean") {
 		// SQLite uses INTEGER for boolean, so convert boolean values appropriately
-		if (dialect === Dialect.SQLITE_MINIMAL || dialect === Dialect.SQLITE_EXTENSIONS) return value ? "1" : "0";
+		if (isSQLite(dialect)) return value ? "1" : "0";
 		return String(value);
 	}
 
@@ -595,7 +1646,7 @@ function formatDefaultValue(value: AnyExpression | undefined, dialect: Dialect,
 			const sql = parseExpression(normalizedValue, state);
 
 			// Fix SQLite-specific function issues
-			if ((dialect === Dialect.SQLITE_MINIMAL || dialect === Dialect.SQLITE_EXTENSIONS) && sql === "DATETIME()") {
+			if (isSQLite(dialect) && sql === "DATETIME()") {
 				return "CURRENT_TIMESTAMP";
 			}
 
@@ -610,6 +1661,14 @@ function formatDefaultValue(value: AnyExpression | undefined, dialect: Dialect,
 
 // Utility functions
 
+function quoteIdentifiers(names: string[]): string {
+	return names.map((name) => `"${name}"`).join(", ");
+}
+
+function isSQLite(dialect: Dialect): boolean {
+	return dialect === Dialect.SQLITE_MINIMAL || dialect === Dialect.SQLITE_EXTENSIONS;
+}
+
 function deepEqual(a: unknown, b: unknown): boolean {
 	if (a === b) return true;
 	if (a == null || b == null) return false;
@@ -633,4 +1692,29 @@ function deepEqual(a: unknown, b: unknown): boolean {
 }
 
 // Export schemas and types
+export type { TableDependencies } from "./dependencies";
+export { sortTablesByDependencies } from "./dependencies";
+export { summarizeDatabaseDiff } from "./diff-summary";
+export type { EnumDiff, EnumModification, EnumValueRename } from "./enums";
+export { hashDataModel } from "./hashing";
+export type { PostgresClient, PostgresIntrospectionOptions } from "./introspect-postgres";
+export { introspectPostgres } from "./introspect-postgres";
+export type { SQLiteColumn, SQLiteDatabase, SQLiteIntrospectionOptions } from "./introspect-sqlite";
+export { introspectSQLite } from "./introspect-sqlite";
+export type { IntrospectionWarning } from "./introspection";
+export type { PolicyOperation, TablePolicy } from "./policies";
+export type { PolicySimulationFailure, PolicySimulationInput, PolicySimulationResult } from "./policy-simulator";
+export { PolicySimulationError, simulateAccessControl } from "./policy-simulator";
+export type { SafetyOptions, UnsafeChange, UnsafeChangeKind } from "./safety";
+export { UnsafeMigrationError } from "./safety";
+export type { DataModel } from "./schemas";
 export { dataModelSchema } from "./schemas";
+export type { ModelSnapshot, SnapshotStore } from "./snapshot-store";
+export { getLatestSnapshot, SnapshotError } from "./snapshot-store";
+export type { SQLiteAccessControl, SQLiteAccessControlOptions } from "./sqlite-access-control";
+export { generateSQLiteAccessControl } from "./sqlite-access-control";
+export type { MigrationStatement, StatementKind } from "./statements";
+export type { ValidationIssue, ValidationOptions } from "./validation";
+export { DataModelValidationError, validateDataModel } from "./validation";
+export type { RuntimeVariableType, VariableBinding, VariableBindings } from "./variables";
+export { defaultVariableBindings } from "./variables";
@@ -0,0 +1,313 @@
+import type { Condition } from "json-to-sql-parser";
+import { z } from "zod";
+import { getFieldConstraintName, getForeignKeyName, getIndexName } from "./constraints";
+import { type IntrospectionWarning, parseColumnDefault, parseGeneratedExpression } from "./introspection";
+import { MIGRATION_PROGRESS_TABLE, MIGRATIONS_TABLE } from "./migration-runner";
+import { type FieldTypeDefinition, mapSQLTypeToFieldType } from "./parser-config";
+import type { TablePolicy } from "./policies";
+import { type DataModel, indexMethods, policyOperations } from "./schemas";
+import { SNAPSHOTS_TABLE } from "./snapshot-store";
+
+type Table = DataModel["tables"][number];
+type Field = Table["fields"][number];
+type ReferentialAction = NonNullable<Field["foreignKey"]>["onDelete"];
+
+// Structurally compatible with the `Client` and `Pool` classes of `pg`
+export type PostgresClient = { query: (text: string, values?: unknown[]) => Promise<{ rows: unknown[] }> };
+
+export type PostgresIntrospectionOptions = { schema?: string; onWarning?: (warning: IntrospectionWarning) => void };
+
+const tableRowSchema = z.object({ table_name: z.string(), row_security: z.boolean() });
+const columnRowSchema = z.object({
+	table_name: z.string(),
+	column_name: z.string(),
+	udt_name: z.string(),
+	character_maximum_length: z.number().nullable(),
+	numeric_precision: z.number().nullable(),
+	numeric_scale: z.number().nullable(),
+	is_nullable: z.enum(["YES", "NO"]),
+	column_default: z.string().nullable(),
+	is_identity: z.enum(["YES", "NO"]),
+	generation_expression: z.string().nullable(),
+});
+const enumRowSchema = z.object({ name: z.string(), values: z.array(z.string()) });
+const constraintRowSchema = z.object({
+	name: z.string(),
+	type: z.enum(["p", "f", "u", "c"]),
+	table_name: z.string(),
+	columns: z.array(z.string()),
+	referenced_table: z.string().nullable(),
+	referenced_columns: z.array(z.string()).nullable(),
+	on_delete: z.string(),
+	on_update: z.string(),
+});
+const indexRowSchema = z.object({
+	name: z.string(),
+	table_name: z.string(),
+	columns: z.array(z.string()),
+	unique: z.boolean(),
+	method: z.string(),
+	partial: z.boolean(),
+});
+const policyRowSchema = z.object({
+	table_name: z.string(),
+	name: z.string(),
+	permissive: z.enum(["PERMISSIVE", "RESTRICTIVE"]),
+	roles: z.array(z.string()),
+	command: z.enum(["ALL", "SELECT", "INSERT", "UPDATE", "DELETE"]),
+	using: z.string().nullable(),
+	with_check: z.string().nullable(),
+});
+
+const TABLES_QUERY = `
+SELECT c.relname AS table_name, c.relrowsecurity AS row_security
+FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+WHERE n.nspname = $1 AND c.relkind IN ('r', 'p') AND NOT c.relispartition AND c.relname NOT IN ('${MIGRATIONS_TABLE}', '${MIGRATION_PROGRESS_TABLE}', '${SNAPSHOTS_TABLE}')
+ORDER BY c.relname`;
+
+const COLUMNS_QUERY = `
+SELECT
+	table_name::text,
+	column_name::text,
+	udt_name::text,
+	character_maximum_length::int,
+	numeric_precision::int,
+	numeric_scale::int,
+	is_nullable::text,
+	column_default::text,
+	is_identity::text,
+	generation_expression::text
+FROM information_schema.columns
+WHERE table_schema = $1
+ORDER BY table_name, ordinal_position`;
+
+const ENUMS_QUERY = `
+SELECT t.typname::text AS name, array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS values
+FROM pg_enum e
+JOIN pg_type t ON t.oid = e.enumtypid
+JOIN pg_namespace n ON n.oid = t.typnamespace
+WHERE n.nspname = $1
+GROUP BY t.typname
+ORDER BY t.typname`;
+
+const CONSTRAINTS_QUERY = `
+SELECT
+	con.conname::text AS name,
+	con.contype::text AS type,
+	rel.relname::text AS table_name,
+	ARRAY(
+		SELECT att.attname::text FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, position)
+		JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = k.attnum ORDER BY k.position
+	) AS columns,
+	ref.relname::text AS referenced_table,
+	CASE WHEN con.contype = 'f' THEN ARRAY(
+		SELECT att.attname::text FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, position)
+		JOIN pg_attribute att ON att.attrelid = con.confrelid AND att.attnum = k.attnum ORDER BY k.position
+	) END AS referenced_columns,
+	con.confdeltype::text AS on_delete,
+	con.confupdtype::text AS on_update
+FROM pg_constraint con
+JOIN pg_class rel ON rel.oid = con.conrelid
+JOIN pg_namespace n ON n.oid = rel.relnamespace
+LEFT JOIN pg_class ref ON ref.oid = con.confrelid
+WHERE n.nspname = $1 AND con.contype IN ('p', 'f', 'u', 'c')
+ORDER BY rel.relname, con.conname`;
+
+const INDEXES_QUERY = `
+SELECT
+	i.relname::text AS name,
+	t.relname::text AS table_name,
+	ARRAY(
+		SELECT att.attname::text FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, position)
+		JOIN pg_attribute att ON att.attrelid = t.oid AND att.attnum = k.attnum ORDER BY k.position
+	) AS columns,
+	ix.indisunique AS unique,
+	am.amname::text AS method,
+	(ix.indpred IS NOT NULL OR ix.indexprs IS NOT NULL) AS partial
+FROM pg_index ix
+JOIN pg_class i ON i.oid = ix.indexrelid
+JOIN pg_class t ON t.oid = ix.indrelid
+JOIN pg_namespace n ON n.oid = t.relnamespace
+JOIN pg_am am ON am.oid = i.relam
+WHERE n.nspname = $1 AND NOT EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = ix.indexrelid)
+ORDER BY t.relname, i.relname`;
+
+const POLICIES_QUERY = `
+SELECT
+	tablename::text AS table_name,
+	policyname::text AS name,
+	permissive::text,
+	roles::text[],
+	cmd::text AS command,
+	qual AS using,
+	with_check
+FROM pg_policies
+WHERE schemaname = $1
+ORDER BY tablename, policyname`;
+
+const referentialActions: Record<string, ReferentialAction> = { c: "cascade", r: "restrict", n: "set_null" };
+
+const commandOperations = { SELECT: "read", INSERT: "create", UPDATE: "update", DELETE: "delete" } as const;
+
+const RANDOM_UUID_DEFAULT = "gen_random_uuid()";
+
+async function query<T extends z.ZodType>(client: PostgresClient, sql: string, schema: string, rowSchema: T) {
+	const { rows } = await client.query(sql, [schema]);
+	return z.array(rowSchema).parse(rows);
+}
+
+// Array types are named after their element type prefixed with an underscore, defaults such as text items are omitted
+function readColumnType(row: z.infer<typeof columnRowSchema>, enumNames: Set<string>): FieldTypeDefinition {
+	if (enumNames.has(row.udt_name)) return { type: "enum", enum: row.udt_name };
+	if (row.udt_name.startsWith("_")) {
+		const items = mapSQLTypeToFieldType(row.udt_name.slice(1));
+		return items === "string" ? { type: "array" } : { type: "array", items };
+	}
+
+	const type = mapSQLTypeToFieldType(row.udt_name);
+	if (type === "varchar" && row.character_maximum_length !== null) return { type, length: row.character_maximum_length };
+	// Unconstrained numeric columns are the ones generated for number fields
+	if (type !== "decimal") return { type };
+	if (row.numeric_precision === null) return { type: "number" };
+	return row.numeric_scale
+		? { type, precision: row.numeric_precision, scale: row.numeric_scale }
+		: { type, precision: row.numeric_precision };
+}
+
+// Only literal policy expressions can be converted back into conditions
+function parsePolicyExpression(sql: string): Condition | undefined {
+	if (sql === "true" || sql === "false") return sql === "true";
+	return undefined;
+}
+
+// Policies apply to every role unless they name some, which PostgreSQL lists as the public role
+function readPolicy(row: z.infer<typeof policyRowSchema>): TablePolicy | undefined {
+	const using = row.using === null ? undefined : parsePolicyExpression(row.using);
+	const withCheck = row.with_check === null ? undefined : parsePolicyExpression(row.with_check);
+	if ((row.using !== null && using === undefined) || (row.with_check !== null && withCheck === undefined)) return undefined;
+
+	const operations = row.command === "ALL" ? [...policyOperations] : [commandOperations[row.command]];
+	const policy: TablePolicy = { name: row.name, operations };
+	if (row.permissive === "RESTRICTIVE") policy.restrictive = true;
+	if (row.roles.some((role) => role !== "public")) policy.roles = row.roles;
+	if (using !== undefined) policy.using = using;
+	if (withCheck !== undefined) policy.withCheck = withCheck;
+	return policy;
+}
+
+/**
+ * Read the tables of a live PostgreSQL schema into a data model. What cannot be expressed in a data model, such as
+ * check constraints, expression indexes, non-literal policies or generated expressions, is reported through `onWarning`.
+ */
+export async function introspectPostgres(client: PostgresClient, options: PostgresIntrospectionOptions = {}): Promise<DataModel> {
+	const schema = options.schema ?? "public";
+	const warn = (path: string, message: string) => options.onWarning?.({ path, message });
+
+	const tableRows = await query(client, TABLES_QUERY, schema, tableRowSchema);
+	const columnRows = await query(client, COLUMNS_QUERY, schema, columnRowSchema);
+	const enumRows = await query(client, ENUMS_QUERY, schema, enumRowSchema);
+	const enumNames = new Set(enumRows.map((row) => row.name));
+	const constraintRows = await query(client, CONSTRAINTS_QUERY, schema, constraintRowSchema);
+	const indexRows = await query(client, INDEXES_QUERY, schema, indexRowSchema);
+	const policyRows = await query(client, POLICIES_QUERY, schema, policyRowSchema);
+
+	const tables = tableRows.map(({ table_name: tableName, row_security: rowSecurity }, tableIndex): Table => {
+		const tablePath = `tables[${tableIndex}]`;
+		const constraints = constraintRows.filter((row) => row.table_name === tableName);
+		const primaryKey = constraints.find((row) => row.type === "p")?.columns ?? [];
+		const tableColumns = columnRows.filter((row) => row.table_name === tableName);
+		const columnNames = tableColumns.map((row) => row.column_name);
+		const fields = tableColumns.map((row, fieldIndex) => {
+			const fieldPath = `${tablePath}.fields[${fieldIndex}]`;
+			const field: Field = { name: row.column_name, ...readColumnType(row, enumNames) };
+
+			if (row.is_nullable === "NO") field.nonNullable = true;
+			if (primaryKey.length === 1 && primaryKey[0] === row.column_name) field.primaryKey = true;
+			if (row.is_identity === "YES") field.autoIncrement = true;
+			if (row.generation_expression !== null) {
+				const expression = parseGeneratedExpression(row.generation_expression, field, columnNames);
+				if (expression === undefined) warn(`${fieldPath}.generated`, `Unsupported expression "${row.generation_expression}"`);
+				else field.generated = { expression };
+				return field;
+			}
+			if (row.column_default === RANDOM_UUID_DEFAULT) return { ...field, autoGenerate: true };
+			if (row.column_default === null) return field;
+
+			const defaultValue = parseColumnDefault(row.column_default, field);
+			if (defaultValue === undefined && !row.column_default.startsWith("NULL"))
+				warn(`${fieldPath}.default`, `Unsupported default "${row.column_default}"`);
+			if (defaultValue !== undefined) field.default = defaultValue;
+			return field;
+		});
+
+		const table: Table = { name: tableName, fields };
+		if (primaryKey.length > 1) table.primaryKey = primaryKey;
+
+		for (const row of constraints) {
+			if (row.type === "c") warn(tablePath, `Check constraint "${row.name}" cannot be introspected`);
+
+			const [column] = row.columns;
+			const field = fields.find((f) => f.name === column);
+			if (row.type === "u" && row.columns.length === 1 && field) field.unique = true;
+			if (row.type === "u" && row.columns.length > 1) {
+				table.indexes = [...(table.indexes ?? []), { name: row.name, columns: row.columns, unique: true }];
+			}
+			if (row.type !== "f" || !row.referenced_table || !row.referenced_columns) continue;
+
+			const onDelete = referentialActions[row.on_delete];
+			const onUpdate = referentialActions[row.on_update];
+			const [referencedColumn] = row.referenced_columns;
+
+			if (
+				row.columns.length === 1 &&
+				field &&
+				referencedColumn &&
+				row.name === getFieldConstraintName("foreignKey", tableName, field.name)
+			) {
+				field.foreignKey = { table: row.referenced_table, field: referencedColumn };
+				if (onDelete) field.foreignKey.onDelete = onDelete;
+				if (onUpdate) field.foreignKey.onUpdate = onUpdate;
+				continue;
+			}
+
+			const foreignKey: NonNullable<Table["foreignKeys"]>[number] = {
+				columns: row.columns,
+				references: { table: row.referenced_table, columns: row.referenced_columns },
+			};
+			if (row.name !== getForeignKeyName(tableName, foreignKey)) foreignKey.name = row.name;
+			if (onDelete) foreignKey.onDelete = onDelete;
+			if (onUpdate) foreignKey.onUpdate = onUpdate;
+			table.foreignKeys = [...(table.foreignKeys ?? []), foreignKey];
+		}
+
+		for (const row of indexRows.filter((index) => index.table_name === tableName)) {
+			if (row.partial) {
+				warn(`${tablePath}.indexes`, `Partial or expression index "${row.name}" cannot be introspected`);
+				continue;
+			}
+
+			const index: NonNullable<Table["indexes"]>[number] = { columns: row.columns };
+			if (row.name !== getIndexName(tableName, index)) index.name = row.name;
+			if (row.unique) index.unique = true;
+			const method = indexMethods.find((m) => m === row.method);
+			if (method && method !== "btree") index.method = method;
+			table.indexes = [...(table.indexes ?? []), index];
+		}
+
+		// Without row level security every operation is allowed, with it operations without a policy are denied
+		const allows = (allowed: boolean) => ({ read: allowed, create: allowed, update: allowed, delete: allowed });
+		if (!rowSecurity) return { ...table, accessControl: allows(true), rowLevelSecurity: false };
+
+		const policies = policyRows
+			.filter((row) => row.table_name === tableName)
+			.flatMap((row) => {
+				const policy = readPolicy(row);
+				if (!policy) warn(`${tablePath}.policies`, `Policy "${row.name}" cannot be converted into conditions`);
+				return policy ? [policy] : [];
+			});
+
+		return policies.length > 0 ? { ...table, policies } : { ...table, accessControl: allows(false) };
+	});
+
+	return enumRows.length > 0 ? { tables, enums: enumRows } : { tables };
+}
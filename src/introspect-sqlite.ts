@@ -0,0 +1,224 @@
+import { Dialect } from "json-to-sql-parser";
+import { z } from "zod";
+import { getIndexName } from "./constraints";
+import { type IntrospectionWarning, parseColumnDefault, parseGeneratedExpression } from "./introspection";
+import { MIGRATION_PROGRESS_TABLE, MIGRATIONS_TABLE } from "./migration-runner";
+import { type FieldTypeDefinition, getTypeDefinition, mapFieldTypeToSQL, mapSQLTypeToFieldType } from "./parser-config";
+import type { DataModel } from "./schemas";
+import { SNAPSHOTS_TABLE } from "./snapshot-store";
+
+type Table = DataModel["tables"][number];
+type Field = Table["fields"][number];
+type FieldType = Field["type"];
+type ReferentialAction = NonNullable<Field["foreignKey"]>["onDelete"];
+
+// Structurally compatible with `bun:sqlite` and `better-sqlite3` databases
+export type SQLiteDatabase = { prepare: (sql: string) => { all: (...params: string[]) => unknown[] } };
+
+export type SQLiteColumn = { table: string; name: string; declaredType: string };
+
+export type SQLiteIntrospectionOptions = {
+	dialect?: Dialect.SQLITE_MINIMAL | Dialect.SQLITE_EXTENSIONS;
+	// Several field types share a SQLite type (TEXT for dates, datetimes and uuids), the field type is taken from
+	// `resolveType` first, then from the same field of `typeHints` when its SQL type matches the declared type
+	resolveType?: (column: SQLiteColumn) => FieldType | FieldTypeDefinition | undefined;
+	typeHints?: DataModel;
+	onWarning?: (warning: IntrospectionWarning) => void;
+};
+
+const tableRowSchema = z.object({ name: z.string(), sql: z.string() });
+const columnRowSchema = z.object({
+	name: z.string(),
+	type: z.string(),
+	notnull: z.number(),
+	dflt_value: z.string().nullable(),
+	pk: z.number(),
+	hidden: z.number(),
+});
+const foreignKeyRowSchema = z.object({
+	id: z.number(),
+	table: z.string(),
+	from: z.string(),
+	to: z.string().nullable(),
+	on_update: z.string(),
+	on_delete: z.string(),
+});
+const indexRowSchema = z.object({ name: z.string(), unique: z.number(), origin: z.string(), partial: z.number() });
+const indexColumnRowSchema = z.object({ name: z.string().nullable() });
+
+const referentialActions: Record<string, ReferentialAction> = {
+	CASCADE: "cascade",
+	RESTRICT: "restrict",
+	"SET NULL": "set_null",
+};
+
+const CHECK_CONSTRAINT = /\bCHECK\s*\(/i;
+const REGEXP_SPECIAL_CHARACTERS = /[.*+?^${}()|[\]\\]/g;
+const DECLARED_TYPE = /^\s*([a-z][\w ]*?)\s*(?:\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?\s*$/i;
+
+// Lengths and precisions are kept from the declared type, a scale of 0 being the default
+function parseDeclaredType(declaredType: string): FieldTypeDefinition {
+	const [, name = declaredType, first, second] = DECLARED_TYPE.exec(declaredType) ?? [];
+	const type = mapSQLTypeToFieldType(name);
+	if (type === "varchar" && first !== undefined) return { type, length: Number(first) };
+	if (type !== "decimal" || first === undefined) return { type };
+	return second && Number(second) > 0
+		? { type, precision: Number(first), scale: Number(second) }
+		: { type, precision: Number(first) };
+}
+
+// Hidden columns of virtual tables are left out, generated columns are hidden as virtual (2) or stored (3)
+const generatedColumnStorage: Record<number, "virtual" | "stored"> = { 2: "virtual", 3: "stored" };
+
+// SQLite only keeps the expression of a generated column in the SQL creating its table, up to the matching parenthesis
+function readGeneratedExpression(tableSQL: string, column: string): string | undefined {
+	const name = column.replace(REGEXP_SPECIAL_CHARACTERS, "\\$&");
+	const start = new RegExp(`(?:"${name}"|\\b${name}\\b)[\\w\\s(),]*?\\bAS\\s*\\(`, "i").exec(tableSQL);
+	if (!start) return undefined;
+
+	const from = start.index + start[0].length;
+	let depth = 0;
+	for (let index = from; index < tableSQL.length; index++) {
+		if (tableSQL[index] === "(") depth++;
+		if (tableSQL[index] === ")" && depth-- === 0) return tableSQL.slice(from, index).trim();
+	}
+	return undefined;
+}
+
+function readPrimaryKey(columnRows: z.infer<typeof columnRowSchema>[]): string[] {
+	return columnRows
+		.filter((row) => row.pk > 0)
+		.sort((a, b) => a.pk - b.pk)
+		.map((row) => row.name);
+}
+
+function query<T extends z.ZodType>(db: SQLiteDatabase, sql: string, rowSchema: T, ...params: string[]) {
+	return z.array(rowSchema).parse(db.prepare(sql).all(...params));
+}
+
+/**
+ * Read the tables of a SQLite database into a data model. SQLite has no access control, so every operation is
+ * allowed; what a data model cannot express, such as check constraints or partial indexes, is reported through
+ * `onWarning`.
+ */
+export function introspectSQLite(db: SQLiteDatabase, options: SQLiteIntrospectionOptions = {}): DataModel {
+	const dialect = options.dialect ?? Dialect.SQLITE_MINIMAL;
+	const warn = (path: string, message: string) => options.onWarning?.({ path, message });
+
+	const resolveType = (column: SQLiteColumn): FieldTypeDefinition => {
+		// Parameters of the declared type are kept when the resolved type is the one it maps to
+		const resolved = options.resolveType?.(column);
+		const declared = parseDeclaredType(column.declaredType);
+		if (typeof resolved === "string") return declared.type === resolved ? declared : { type: resolved };
+		if (resolved) return getTypeDefinition(resolved);
+
+		const hint = options.typeHints?.tables
+			.find((table) => table.name === column.table)
+			?.fields.find((field) => field.name === column.name);
+		if (hint && mapFieldTypeToSQL(hint, dialect) === column.declaredType.toUpperCase()) return getTypeDefinition(hint);
+
+		return declared;
+	};
+
+	const tableRows = query(
+		db,
+		`SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT IN ('${MIGRATIONS_TABLE}', '${MIGRATION_PROGRESS_TABLE}', '${SNAPSHOTS_TABLE}') ORDER BY name`,
+		tableRowSchema,
+	);
+
+	const tables = tableRows.map(({ name: tableName, sql: tableSQL }, tableIndex): Table => {
+		const tablePath = `tables[${tableIndex}]`;
+		const columnRows = query(db, "SELECT * FROM pragma_table_xinfo(?) WHERE hidden <> 1", columnRowSchema, tableName);
+		const columnNames = columnRows.map((row) => row.name);
+		const primaryKey = readPrimaryKey(columnRows);
+
+		const fields = columnRows.map((row, fieldIndex) => {
+			const fieldPath = `${tablePath}.fields[${fieldIndex}]`;
+			const field: Field = { name: row.name, ...resolveType({ table: tableName, name: row.name, declaredType: row.type }) };
+
+			// SQLite accepts NULL in primary keys that are not INTEGER, which the generated schemas never rely on
+			if (row.notnull || row.pk > 0) field.nonNullable = true;
+			if (primaryKey.length === 1 && primaryKey[0] === row.name) field.primaryKey = true;
+
+			const storage = generatedColumnStorage[row.hidden];
+			if (storage) {
+				const sql = readGeneratedExpression(tableSQL, row.name);
+				const expression = sql === undefined ? undefined : parseGeneratedExpression(sql, field, columnNames);
+				if (expression === undefined) warn(`${fieldPath}.generated`, `Unsupported expression "${sql ?? ""}"`);
+				else field.generated = storage === "stored" ? { expression, stored: true } : { expression };
+				return field;
+			}
+			if (row.dflt_value === null || row.dflt_value === "NULL") return field;
+
+			const defaultValue = parseColumnDefault(row.dflt_value, field);
+			if (defaultValue === undefined) warn(`${fieldPath}.default`, `Unsupported default "${row.dflt_value}"`);
+			else field.default = defaultValue;
+			return field;
+		});
+
+		const table: Table = { name: tableName, fields, accessControl: { read: true, create: true, update: true, delete: true } };
+		if (primaryKey.length > 1) table.primaryKey = primaryKey;
+		if (CHECK_CONSTRAINT.test(tableSQL)) warn(tablePath, `Check constraints of table "${tableName}" cannot be introspected`);
+
+		const foreignKeyRows = query(db, "SELECT * FROM pragma_foreign_key_list(?)", foreignKeyRowSchema, tableName);
+		for (const id of new Set(foreignKeyRows.map((row) => row.id))) {
+			const rows = foreignKeyRows.filter((row) => row.id === id);
+			const [row] = rows;
+			if (!row) continue;
+
+			const referencedTable = tableRows.find((t) => t.name === row.table);
+			// Foreign keys declared without their referenced columns reference the primary key
+			const referencedPrimaryKey = referencedTable
+				? readPrimaryKey(query(db, "SELECT * FROM pragma_table_xinfo(?)", columnRowSchema, referencedTable.name))
+				: [];
+			const columns = rows.map((r) => r.from);
+			const referencedColumns = rows.map((r, index) => r.to ?? referencedPrimaryKey[index] ?? r.from);
+			const onDelete = referentialActions[row.on_delete];
+			const onUpdate = referentialActions[row.on_update];
+
+			const field = fields.find((f) => f.name === row.from);
+			const [referencedColumn] = referencedColumns;
+			if (rows.length === 1 && field && referencedColumn) {
+				field.foreignKey = { table: row.table, field: referencedColumn };
+				if (onDelete) field.foreignKey.onDelete = onDelete;
+				if (onUpdate) field.foreignKey.onUpdate = onUpdate;
+				continue;
+			}
+
+			const foreignKey: NonNullable<Table["foreignKeys"]>[number] = {
+				columns,
+				references: { table: row.table, columns: referencedColumns },
+			};
+			if (onDelete) foreignKey.onDelete = onDelete;
+			if (onUpdate) foreignKey.onUpdate = onUpdate;
+			table.foreignKeys = [...(table.foreignKeys ?? []), foreignKey];
+		}
+
+		const indexRows = query(db, "SELECT * FROM pragma_index_list(?) ORDER BY name", indexRowSchema, tableName);
+		for (const row of indexRows.filter((index) => index.origin !== "pk")) {
+			const columns = query(db, "SELECT name FROM pragma_index_info(?) ORDER BY seqno", indexColumnRowSchema, row.name).map(
+				(column) => column.name,
+			);
+			if (row.partial || columns.some((column) => column === null)) {
+				warn(`${tablePath}.indexes`, `Partial or expression index "${row.name}" cannot be introspected`);
+				continue;
+			}
+
+			const indexColumns = columns.flatMap((column) => (column === null ? [] : [column]));
+			const field = fields.find((f) => f.name === indexColumns[0]);
+			if (row.origin === "u" && indexColumns.length === 1 && field) {
+				field.unique = true;
+				continue;
+			}
+
+			const index: NonNullable<Table["indexes"]>[number] = { columns: indexColumns };
+			if (row.origin === "c" && row.name !== getIndexName(tableName, index)) index.name = row.name;
+			if (row.unique) index.unique = true;
+			table.indexes = [...(table.indexes ?? []), index];
+		}
+
+		return table;
+	});
+
+	return { tables };
+}
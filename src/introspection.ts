@@ -0,0 +1,39 @@
+import type { AnyExpression } from "json-to-sql-parser";
+import { mapFieldType } from "./parser-config";
+import type { DataModel } from "./schemas";
+
+type Field = DataModel["tables"][number]["fields"][number];
+
+export type IntrospectionWarning = { path: string; message: string };
+
+const STRING_LITERAL = /^'((?:[^']|'')*)'(?:::[\w\s]+)?$/;
+const NUMBER_LITERAL = /^\(?(-?\d+(?:\.\d+)?)\)?(?:::[\w\s]+)?$/;
+const FUNCTION_CALL = /^(\w+)\(\)$/;
+const COLUMN_REFERENCE = /^\(?(?:"?\w+"?\.)?"?(\w+)"?\)?$/;
+
+// Convert the SQL of a column default back into the expression it was most likely generated from
+export function parseColumnDefault(sql: string, field: Field): AnyExpression | undefined {
+	const literal = STRING_LITERAL.exec(sql);
+	if (literal?.[1] !== undefined) {
+		const value = literal[1].replace(/''/g, "'");
+		return mapFieldType(field.type) === "number" && value.trim() !== "" && !Number.isNaN(Number(value)) ? Number(value) : value;
+	}
+
+	const number = NUMBER_LITERAL.exec(sql);
+	if (number?.[1] !== undefined) return field.type === "boolean" ? Number(number[1]) !== 0 : Number(number[1]);
+
+	if (sql === "true" || sql === "false") return sql === "true";
+	if (sql === "CURRENT_TIMESTAMP") return { $func: { NOW: [] } };
+
+	const call = FUNCTION_CALL.exec(sql);
+	if (call?.[1] !== undefined) return { $func: { [call[1].toUpperCase()]: [] } };
+
+	return undefined;
+}
+
+// Convert the SQL of a generated column back into its expression, when it is a literal or another column of the row
+export function parseGeneratedExpression(sql: string, field: Field, columns: string[]): AnyExpression | undefined {
+	const reference = COLUMN_REFERENCE.exec(sql)?.[1];
+	if (reference !== undefined && columns.includes(reference)) return { $field: reference };
+	return parseColumnDefault(sql, field);
+}
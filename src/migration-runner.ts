@@ -0,0 +1,277 @@
+import { Dialect } from "json-to-sql-parser";
+import { z } from "zod";
+import { hashDataModel, sha256 } from "./hashing";
+import type { PostgresClient } from "./introspect-postgres";
+import type { SQLiteDatabase } from "./introspect-sqlite";
+import type { DataModel } from "./schemas";
+import { joinStatements, type MigrationStatement } from "./statements";
+
+export const MIGRATIONS_TABLE = "_schema_migrations";
+// Steps of the migrations split into several transactions, committed before the migration itself
+export const MIGRATION_PROGRESS_TABLE = "_schema_migration_progress";
+
+const NON_TRANSACTIONAL_STATEMENT = /\bCONCURRENTLY\b|\bALTER\s+TYPE\b[^;]*\bADD\s+VALUE\b/i;
+const FOREIGN_KEYS_PRAGMA = /\bPRAGMA\s+foreign_keys\s*=/i;
+
+export type Migration = {
+	id: string;
+	// A script runs as a single query, while statements run one at a time and only the transactional ones in transactions
+	up: string | MigrationStatement[];
+	// Model the database matches once the migration is applied, stored as a hash to detect drift
+	model?: DataModel;
+	// Defaults to running in a transaction unless the migration contains statements that cannot
+	transaction?: boolean;
+};
+
+export type MigrationDriver = {
+	dialect: Dialect;
+	execute: (sql: string) => Promise<void>;
+	query: (sql: string) => Promise<unknown[]>;
+};
+
+export type AppliedMigration = { id: string; checksum: string; modelHash: string | null; appliedAt: string };
+export type MigrationStatus = { id: string; state: "applied" | "pending"; appliedAt?: string };
+
+export type SQLiteConnection = SQLiteDatabase & { exec: (sql: string) => unknown };
+
+type MigrationStep = { sql: string; transactional: boolean; checksForeignKeys?: boolean };
+
+export class MigrationError extends Error {
+	readonly migrationId: string;
+	readonly reason: "checksum_mismatch" | "out_of_order" | "unknown_migration" | "foreign_key_violation" | "failed";
+
+	constructor(migrationId: string, reason: MigrationError["reason"], message: string, options?: ErrorOptions) {
+		super(`Migration "${migrationId}": ${message}`, options);
+		this.name = "MigrationError";
+		this.migrationId = migrationId;
+		this.reason = reason;
+	}
+}
+
+const appliedMigrationRowSchema = z.object({
+	id: z.string(),
+	checksum: z.string(),
+	model_hash: z.string().nullable(),
+	applied_at: z.string(),
+});
+const progressRowSchema = z.object({ checksum: z.string(), steps: z.coerce.number() });
+
+// Transactions span several queries, so a dedicated client must be used rather than a pool
+export function createPostgresDriver(client: PostgresClient): MigrationDriver {
+	return {
+		dialect: Dialect.POSTGRESQL,
+		execute: async (sql) => {
+			await client.query(sql);
+		},
+		query: async (sql) => (await client.query(sql)).rows,
+	};
+}
+
+export function createSQLiteDriver(
+	db: SQLiteConnection,
+	dialect: Dialect.SQLITE_MINIMAL | Dialect.SQLITE_EXTENSIONS = Dialect.SQLITE_MINIMAL,
+): MigrationDriver {
+	return {
+		dialect,
+		execute: (sql) => {
+			db.exec(sql);
+			return Promise.resolve();
+		},
+		query: (sql) => Promise.resolve(db.prepare(sql).all()),
+	};
+}
+
+export function quoteLiteral(value: string | null): string {
+	return value === null ? "NULL" : `'${value.replace(/'/g, "''")}'`;
+}
+
+function getMigrationSQL({ up }: Migration): string {
+	return typeof up === "string" ? up : joinStatements(up);
+}
+
+// PostgreSQL cannot index concurrently in a transaction, nor use the enum values it adds before committing them, and
+// SQLite ignores foreign key pragmas in one
+function canRunInTransaction(sql: string, dialect: Dialect): boolean {
+	return !(dialect === Dialect.POSTGRESQL ? NON_TRANSACTIONAL_STATEMENT : FOREIGN_KEYS_PRAGMA).test(sql);
+}
+
+// Foreign key pragmas are left out, the runner disables foreign keys around the whole migration instead
+function getMigrationSteps({ up, transaction }: Migration, dialect: Dialect): MigrationStep[] {
+	if (typeof up === "string") return [{ sql: up, transactional: transaction ?? canRunInTransaction(up, dialect) }];
+
+	return up
+		.filter((statement) => !FOREIGN_KEYS_PRAGMA.test(statement.sql))
+		.map(({ sql, kind, transactional }) => ({
+			sql,
+			transactional: transaction ?? transactional,
+			checksForeignKeys: kind === "check_foreign_keys",
+		}));
+}
+
+// Consecutive transactional steps share a transaction, the others run on their own
+function groupMigrationSteps(steps: MigrationStep[]): MigrationStep[][] {
+	const groups: MigrationStep[][] = [];
+	for (const step of steps) {
+		const group = groups.at(-1);
+		if (step.transactional && group?.[0]?.transactional) group.push(step);
+		else groups.push([step]);
+	}
+	return groups;
+}
+
+/**
+ * Apply migrations in order, recording each of them in the `_schema_migrations` table. Migrations are identified by
+ * their id: applied migrations must form a prefix of the given list, and must not have been edited since.
+ */
+export class MigrationRunner {
+	readonly driver: MigrationDriver;
+
+	constructor(driver: MigrationDriver) {
+		this.driver = driver;
+	}
+
+	async applied(): Promise<AppliedMigration[]> {
+		await this.driver.execute(
+			`CREATE TABLE IF NOT EXISTS "${MIGRATIONS_TABLE}" (id TEXT PRIMARY KEY, checksum TEXT NOT NULL, model_hash TEXT, applied_at TEXT NOT NULL);`,
+		);
+		await this.driver.execute(
+			`CREATE TABLE IF NOT EXISTS "${MIGRATION_PROGRESS_TABLE}" (id TEXT PRIMARY KEY, checksum TEXT NOT NULL, steps INTEGER NOT NULL);`,
+		);
+
+		const rows = await this.driver.query(
+			`SELECT id, checksum, model_hash, applied_at FROM "${MIGRATIONS_TABLE}" ORDER BY applied_at, id;`,
+		);
+		return z
+			.array(appliedMigrationRowSchema)
+			.parse(rows)
+			.map((row) => ({ id: row.id, checksum: row.checksum, modelHash: row.model_hash, appliedAt: row.applied_at }));
+	}
+
+	async status(migrations: Migration[]): Promise<MigrationStatus[]> {
+		const applied = await this.verify(migrations);
+
+		return migrations.map(({ id }) => {
+			const appliedMigration = applied.get(id);
+			return appliedMigration ? { id, state: "applied", appliedAt: appliedMigration.appliedAt } : { id, state: "pending" };
+		});
+	}
+
+	/**
+	 * Apply the pending migrations, returning their ids. A failing migration is rolled back when it runs in a
+	 * transaction, and stops the run.
+	 */
+	async migrate(migrations: Migration[]): Promise<string[]> {
+		const applied = await this.verify(migrations);
+		const pending = migrations.filter((migration) => !applied.has(migration.id));
+
+		for (const migration of pending) await this.apply(migration);
+
+		return pending.map((migration) => migration.id);
+	}
+
+	private async verify(migrations: Migration[]): Promise<Map<string, AppliedMigration>> {
+		const applied = new Map((await this.applied()).map((migration) => [migration.id, migration]));
+		const ids = new Set(migrations.map((migration) => migration.id));
+
+		for (const id of applied.keys()) {
+			if (!ids.has(id))
+				throw new MigrationError(id, "unknown_migration", "applied to the database but missing from the migrations");
+		}
+
+		const firstPending = migrations.findIndex((migration) => !applied.has(migration.id));
+		const appliedAfterPending = firstPending === -1 ? undefined : migrations.slice(firstPending).find((m) => applied.has(m.id));
+		if (appliedAfterPending) {
+			const pendingId = migrations[firstPending]?.id;
+			throw new MigrationError(
+				pendingId ?? appliedAfterPending.id,
+				"out_of_order",
+				`pending, but "${appliedAfterPending.id}" which follows it was applied`,
+			);
+		}
+
+		for (const migration of migrations) {
+			const appliedMigration = applied.get(migration.id);
+			if (appliedMigration && appliedMigration.checksum !== sha256(getMigrationSQL(migration)))
+				throw new MigrationError(migration.id, "checksum_mismatch", "edited after being applied");
+		}
+
+		return applied;
+	}
+
+	/**
+	 * Run the steps of a migration followed by its record, consecutive transactional steps in a transaction and the
+	 * others on their own. SQLite ignores foreign key pragmas in a transaction, so foreign keys are disabled before the
+	 * first transaction and enabled again after the last one.
+	 *
+	 * A migration split into several transactions records the steps it commits, along with each of them, so that
+	 * running it again after a failure resumes from the first step that was not committed.
+	 */
+	private async apply(migration: Migration): Promise<void> {
+		const checksum = sha256(getMigrationSQL(migration));
+		const values = [migration.id, checksum, migration.model ? hashDataModel(migration.model) : null, new Date().toISOString()];
+		const record = `INSERT INTO "${MIGRATIONS_TABLE}" (id, checksum, model_hash, applied_at) VALUES (${values.map(quoteLiteral).join(", ")});`;
+
+		const committed = await this.progress(migration, checksum);
+		const steps = getMigrationSteps(migration, this.driver.dialect).slice(committed);
+		const groups = groupMigrationSteps([...steps, { sql: record, transactional: true }]);
+		const tracksProgress = committed > 0 || groups.length > 1;
+		const disablesForeignKeys =
+			typeof migration.up !== "string" && migration.up.some((statement) => FOREIGN_KEYS_PRAGMA.test(statement.sql));
+
+		if (disablesForeignKeys) await this.run(migration, { sql: "PRAGMA foreign_keys=OFF;", transactional: false });
+		try {
+			let completed = committed;
+			for (const [index, group] of groups.entries()) {
+				completed += group.length;
+				const progress =
+					index === groups.length - 1
+						? `DELETE FROM "${MIGRATION_PROGRESS_TABLE}" WHERE id = ${quoteLiteral(migration.id)};`
+						: `INSERT INTO "${MIGRATION_PROGRESS_TABLE}" (id, checksum, steps) VALUES (${quoteLiteral(migration.id)}, ${quoteLiteral(checksum)}, ${completed}) ON CONFLICT (id) DO UPDATE SET steps = excluded.steps;`;
+				const tracked = tracksProgress ? [...group, { sql: progress, transactional: group[0]?.transactional ?? true }] : group;
+
+				if (group[0]?.transactional) await this.runInTransaction(migration, tracked);
+				else for (const step of tracked) await this.run(migration, step);
+			}
+		} finally {
+			if (disablesForeignKeys) await this.run(migration, { sql: "PRAGMA foreign_keys=ON;", transactional: false });
+		}
+	}
+
+	// Number of steps committed by a previous run of the migration
+	private async progress(migration: Migration, checksum: string): Promise<number> {
+		const rows = await this.driver.query(
+			`SELECT checksum, steps FROM "${MIGRATION_PROGRESS_TABLE}" WHERE id = ${quoteLiteral(migration.id)};`,
+		);
+		const [row] = z.array(progressRowSchema).parse(rows);
+		if (row && row.checksum !== checksum)
+			throw new MigrationError(migration.id, "checksum_mismatch", "edited after being partly applied");
+		return row?.steps ?? 0;
+	}
+
+	// A failing rollback must not hide the error that caused it
+	private async runInTransaction(migration: Migration, steps: MigrationStep[]): Promise<void> {
+		await this.driver.execute("BEGIN;");
+		try {
+			for (const step of steps) await this.run(migration, step);
+			await this.driver.execute("COMMIT;");
+		} catch (error) {
+			await this.driver.execute("ROLLBACK;").catch(() => undefined);
+			throw error;
+		}
+	}
+
+	// Foreign key checks return the rows violating foreign keys, which fail the migration
+	private async run(migration: Migration, { sql, checksForeignKeys }: MigrationStep): Promise<void> {
+		let violations: unknown[] = [];
+		try {
+			if (checksForeignKeys) violations = await this.driver.query(sql);
+			else await this.driver.execute(sql);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new MigrationError(migration.id, "failed", message, { cause: error });
+		}
+
+		if (violations.length > 0)
+			throw new MigrationError(migration.id, "foreign_key_violation", `${violations.length} rows violate foreign keys (${sql})`);
+	}
+}
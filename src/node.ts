@@ -0,0 +1,12 @@
+// Migration runner and snapshot stores, kept out of the main entry point as the file store depends on Node built-ins
+export { createFileSnapshotStore } from "./file-snapshot-store";
+export type { AppliedMigration, Migration, MigrationDriver, MigrationStatus, SQLiteConnection } from "./migration-runner";
+export {
+	createPostgresDriver,
+	createSQLiteDriver,
+	MIGRATION_PROGRESS_TABLE,
+	MIGRATIONS_TABLE,
+	MigrationError,
+	MigrationRunner,
+} from "./migration-runner";
+export { createDatabaseSnapshotStore, SNAPSHOTS_TABLE } from "./snapshot-store";
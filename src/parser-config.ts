@@ -0,0 +1,232 @@
+import { type Config, Dialect, type fieldTypes } from "json-to-sql-parser";
+import type { DataModel } from "./schemas";
+import type { BoundVariables } from "./variables";
+
+type Field = DataModel["tables"][number]["fields"][number];
+
+export type FieldTypeDefinition = Pick<Field, "type" | "length" | "precision" | "scale" | "values" | "enum" | "items">;
+
+// Helper function to map our field types to parser field types
+export function mapFieldType(fieldType: string): (typeof fieldTypes)[number] {
+	switch (fieldType.toLowerCase()) {
+		case "text":
+		case "string":
+		case "varchar":
+		case "char":
+		case "bpchar":
+		case "enum":
+		case "time":
+		case "interval":
+		case "binary":
+		case "bytea":
+		case "blob":
+			return "string";
+		case "number":
+		case "int":
+		case "integer":
+		case "bigint":
+		case "smallint":
+		case "int2":
+		case "int4":
+		case "int8":
+		case "decimal":
+		case "numeric":
+		case "real":
+		case "double":
+		case "float":
+		case "float4":
+		case "float8":
+			return "number";
+		case "bool":
+		case "boolean":
+			return "boolean";
+		case "object":
+		case "json":
+		case "jsonb":
+		case "array":
+			return "object";
+		case "date":
+			return "date";
+		case "datetime":
+		case "timestamp":
+		case "timestamptz":
+			return "datetime";
+		case "uuid":
+			return "uuid";
+		default:
+			return "string"; // Default fallback
+	}
+}
+
+export function mapFieldTypeToSQL(definition: FieldTypeDefinition, dialect: Dialect): string {
+	const { type, length, precision, scale, items } = definition;
+
+	if (dialect === Dialect.POSTGRESQL) {
+		if (type === "enum" && definition.enum !== undefined) return `"${definition.enum}"`;
+		if (type === "varchar" && length !== undefined) return `VARCHAR(${length})`;
+		if (type === "decimal" && precision !== undefined) return `NUMERIC(${precision}, ${scale ?? 0})`;
+		if (type === "array") return `${mapFieldTypeToSQL({ type: items ?? "string" }, dialect)}[]`;
+	}
+
+	const typeMap = {
+		[Dialect.POSTGRESQL]: {
+			string: "TEXT",
+			number: "NUMERIC",
+			boolean: "BOOLEAN",
+			object: "JSONB",
+			date: "DATE",
+			datetime: "TIMESTAMP WITH TIME ZONE",
+			uuid: "UUID",
+			integer: "INTEGER",
+			bigint: "BIGINT",
+			decimal: "NUMERIC",
+			varchar: "VARCHAR",
+			enum: "TEXT",
+			array: "TEXT[]",
+			binary: "BYTEA",
+			time: "TIME",
+			interval: "INTERVAL",
+		},
+		[Dialect.SQLITE_MINIMAL]: {
+			string: "TEXT",
+			number: "REAL",
+			boolean: "INTEGER",
+			object: "TEXT", // SQLite doesn't have native JSON type
+			date: "TEXT",
+			datetime: "TEXT",
+			uuid: "TEXT",
+			integer: "INTEGER",
+			bigint: "INTEGER",
+			decimal: "NUMERIC",
+			varchar: "TEXT",
+			enum: "TEXT",
+			array: "TEXT",
+			binary: "BLOB",
+			time: "TEXT",
+			interval: "TEXT",
+		},
+		[Dialect.SQLITE_EXTENSIONS]: {
+			string: "TEXT",
+			number: "REAL",
+			boolean: "INTEGER",
+			object: "JSON", // SQLite with extensions has JSON type
+			date: "TEXT",
+			datetime: "TEXT",
+			uuid: "TEXT",
+			integer: "INTEGER",
+			bigint: "INTEGER",
+			decimal: "NUMERIC",
+			varchar: "TEXT",
+			enum: "TEXT",
+			array: "JSON",
+			binary: "BLOB",
+			time: "TEXT",
+			interval: "TEXT",
+		},
+	};
+
+	return typeMap[dialect][type];
+}
+
+// Reverse of mapFieldTypeToSQL for the name of a SQL type, the introspections read its parameters
+export function mapSQLTypeToFieldType(sqlType: string): Field["type"] {
+	switch (sqlType.toLowerCase()) {
+		case "int":
+		case "integer":
+		case "smallint":
+		case "int2":
+		case "int4":
+			return "integer";
+		case "bigint":
+		case "int8":
+			return "bigint";
+		case "decimal":
+		case "numeric":
+			return "decimal";
+		case "real":
+		case "double":
+		case "double precision":
+		case "float":
+		case "float4":
+		case "float8":
+			return "number";
+		case "varchar":
+		case "character varying":
+			return "varchar";
+		case "bool":
+		case "boolean":
+			return "boolean";
+		case "json":
+		case "jsonb":
+			return "object";
+		case "date":
+			return "date";
+		case "datetime":
+		case "timestamp":
+		case "timestamptz":
+			return "datetime";
+		case "uuid":
+			return "uuid";
+		case "bytea":
+		case "blob":
+			return "binary";
+		case "time":
+		case "timetz":
+			return "time";
+		case "interval":
+			return "interval";
+		default:
+			return "string";
+	}
+}
+
+// The type of a field along with its parameters, two fields have the same column type when their definitions are equal
+export function getTypeDefinition(field: FieldTypeDefinition): FieldTypeDefinition {
+	return {
+		type: field.type,
+		length: field.length,
+		precision: field.precision,
+		scale: field.scale,
+		values: field.values,
+		enum: field.enum,
+		items: field.items,
+	};
+}
+
+export function formatFieldType({ type, length, precision, scale, enum: enumName, items }: FieldTypeDefinition): string {
+	if (type === "enum" && enumName !== undefined) return `enum<${enumName}>`;
+	if (type === "varchar" && length !== undefined) return `varchar(${length})`;
+	if (type === "decimal" && precision !== undefined) return `decimal(${precision}, ${scale ?? 0})`;
+	if (type === "array") return `array<${items ?? "string"}>`;
+	return type;
+}
+
+// Helper function to create parser configuration from data model
+export function createParserConfig(model: DataModel, dialect: Dialect, boundVariables?: BoundVariables): Config {
+	return {
+		tables: model.tables.reduce<Config["tables"]>((acc, table) => {
+			acc[table.name] = {
+				allowedFields: table.fields.map((field) => ({
+					name: field.name,
+					type: mapFieldType(field.type),
+					nullable: !field.nonNullable,
+					default: field.default,
+				})),
+			};
+			return acc;
+		}, {}),
+		variables: boundVariables?.variables ?? {},
+		relationships: model.tables.flatMap((table) =>
+			table.fields
+				.filter((field) => field.foreignKey)
+				.map((field) => ({
+					table: table.name,
+					field: field.name,
+					toTable: field.foreignKey!.table,
+					toField: field.foreignKey!.field,
+					type: "many-to-one" as const,
+				})),
+		),
+		dialect,
+	};
+}
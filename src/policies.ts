@@ -0,0 +1,99 @@
+import type { Condition } from "json-to-sql-parser";
+import { type DataModel, policyOperations } from "./schemas";
+
+type Table = DataModel["tables"][number];
+
+export type TablePolicy = NonNullable<Table["policies"]>[number];
+export type PolicyOperation = TablePolicy["operations"][number];
+
+const policyCommands: Record<PolicyOperation, string> = { read: "SELECT", create: "INSERT", update: "UPDATE", delete: "DELETE" };
+const roleKeywords = new Set(["public", "current_role", "current_user", "session_user"]);
+
+export function hasRowLevelSecurity(table: Table): boolean {
+	return table.rowLevelSecurity ?? true;
+}
+
+// Each access control condition is a permissive policy on its operation, named "<table>_<operation>_policy"
+export function getTablePolicies(table: Table): TablePolicy[] {
+	const { accessControl } = table;
+	const shorthand = accessControl
+		? policyOperations.map((operation): TablePolicy => {
+				const condition = accessControl[operation];
+				return {
+					name: `${table.name}_${operation}_policy`,
+					operations: [operation],
+					...(operation === "create" ? { withCheck: condition } : { using: condition }),
+				};
+			})
+		: [];
+
+	return [...shorthand, ...(table.policies ?? [])];
+}
+
+// PostgreSQL policies apply to one or all commands, others are split into a policy per operation
+export function getPolicyCommands(policy: TablePolicy): Array<{ name: string; operation: PolicyOperation | "all" }> {
+	const operations = policyOperations.filter((operation) => policy.operations.includes(operation));
+	if (operations.length === policyOperations.length) return [{ name: policy.name, operation: "all" }];
+
+	return operations.map((operation) => ({
+		name: operations.length === 1 ? policy.name : `${policy.name}_${operation}`,
+		operation,
+	}));
+}
+
+function formatRole(role: string): string {
+	return roleKeywords.has(role.toLowerCase()) ? role.toUpperCase() : `"${role}"`;
+}
+
+/**
+ * Generate the PostgreSQL statements creating a policy, inserted rows are checked against `withCheck`, or `using`
+ * when it is not set
+ */
+export function generateCreatePolicySQL(
+	tableName: string,
+	policy: TablePolicy,
+	compileCondition: (condition: Condition) => string,
+): string[] {
+	return getPolicyCommands(policy).map(({ name, operation }) => {
+		const using = operation === "create" ? undefined : policy.using;
+		const withCheck =
+			operation === "read" || operation === "delete"
+				? undefined
+				: operation === "create"
+					? (policy.withCheck ?? policy.using)
+					: policy.withCheck;
+		const clauses = [
+			`CREATE POLICY "${name}" ON "${tableName}"`,
+			...(policy.restrictive ? ["AS RESTRICTIVE"] : []),
+			`FOR ${operation === "all" ? "ALL" : policyCommands[operation]}`,
+			...(policy.roles ? [`TO ${policy.roles.map(formatRole).join(", ")}`] : []),
+			...(using !== undefined ? [`USING (${compileCondition(using)})`] : []),
+			...(withCheck !== undefined ? [`WITH CHECK (${compileCondition(withCheck)})`] : []),
+		];
+		return `${clauses.join(" ")};`;
+	});
+}
+
+export function generateDropPolicySQL(tableName: string, policy: TablePolicy): string[] {
+	return getPolicyCommands(policy).map(({ name }) => `DROP POLICY IF EXISTS "${name}" ON "${tableName}";`);
+}
+
+/**
+ * Combine the policies of an operation into a single condition, permissive policies granting it and restrictive ones
+ * limiting it further. Rows are filtered by `using` and checked against `withCheck`, or `using` when it is not set.
+ */
+export function getOperationCondition(table: Table, operation: PolicyOperation, clause: "using" | "withCheck"): Condition {
+	const getConditions = (restrictive: boolean) =>
+		getTablePolicies(table)
+			.filter((policy) => policy.operations.includes(operation) && (policy.restrictive ?? false) === restrictive)
+			.flatMap((policy) => {
+				const condition = clause === "using" ? policy.using : (policy.withCheck ?? policy.using);
+				return condition === undefined ? [] : [condition];
+			});
+
+	const [permissive, restrictive] = [getConditions(false), getConditions(true)];
+	const [first, ...others] = permissive;
+	const granted: Condition = first === undefined ? false : others.length === 0 ? first : { $or: permissive };
+
+	return restrictive.length === 0 ? granted : { $and: [granted, ...restrictive] };
+}
@@ -0,0 +1,304 @@
+import type { Condition } from "json-to-sql-parser";
+import { getTablePolicies, hasRowLevelSecurity, type PolicyOperation, type TablePolicy } from "./policies";
+import type { DataModel } from "./schemas";
+
+type Row = Record<string, unknown>;
+type Value = string | number | boolean | null;
+// SQL conditions are unknown (null) when they compare to NULL, and only rows with true conditions pass policies
+type Truth = boolean | null;
+type Evaluation = { value: Truth; failure?: { path: string; condition: unknown } };
+type PolicyClause = "using" | "withCheck";
+
+export type PolicySimulationInput = {
+	table: string;
+	operation: PolicyOperation;
+	// The row being read, created, updated or deleted; updates check `updatedRow` against their withCheck conditions
+	row: Row;
+	updatedRow?: Row;
+	// Rows of the tables reached through foreign keys, by table name
+	relatedRows?: Record<string, Row[]>;
+	variables?: Record<string, Value>;
+	role?: string;
+};
+
+export type PolicySimulationFailure = { policy: string; clause: PolicyClause; path: string; condition: unknown };
+
+export type PolicySimulationResult = { allowed: boolean; message: string; failures: PolicySimulationFailure[] };
+
+export class PolicySimulationError extends Error {
+	readonly path: string;
+
+	constructor(path: string, message: string) {
+		super(`${path}: ${message}`);
+		this.name = "PolicySimulationError";
+		this.path = path;
+	}
+}
+
+const comparisons = {
+	$eq: (order: number) => order === 0,
+	$ne: (order: number) => order !== 0,
+	$gt: (order: number) => order > 0,
+	$gte: (order: number) => order >= 0,
+	$lt: (order: number) => order < 0,
+	$lte: (order: number) => order <= 0,
+};
+
+const literalExpressions = ["$uuid", "$date", "$timestamp"];
+const LIKE_SPECIAL_CHARACTERS = /[.*+?^${}()|[\]\\]/g;
+
+const functions: Record<string, (args: Value[]) => Value> = {
+	UPPER: ([value]) => (value === null || value === undefined ? null : String(value).toUpperCase()),
+	LOWER: ([value]) => (value === null || value === undefined ? null : String(value).toLowerCase()),
+	LENGTH: ([value]) => (value === null || value === undefined ? null : String(value).length),
+	ABS: ([value]) => (typeof value === "number" ? Math.abs(value) : null),
+	COALESCE: (args) => args.find((value) => value !== null) ?? null,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isComparison(key: string): key is keyof typeof comparisons {
+	return key in comparisons;
+}
+
+function toValue(value: unknown): Value {
+	if (value === undefined || value === null) return null;
+	if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+	if (typeof value === "bigint") return Number(value);
+	if (value instanceof Date) return value.toISOString();
+	return JSON.stringify(value);
+}
+
+function compare(left: Value, right: Value): number | null {
+	if (left === null || right === null) return null;
+	if (typeof left === "number" && typeof right === "number") return left - right;
+	if (typeof left === "boolean" || typeof right === "boolean") return left === right ? 0 : Number(left) - Number(right);
+
+	const [a, b] = [String(left), String(right)];
+	return a === b ? 0 : a < b ? -1 : 1;
+}
+
+function matchesPattern(value: Value, pattern: Value, caseInsensitive: boolean): Truth {
+	if (value === null || pattern === null) return null;
+	const source = String(pattern)
+		.split("")
+		.map((char) => (char === "%" ? ".*" : char === "_" ? "." : char.replace(LIKE_SPECIAL_CHARACTERS, "\\$&")))
+		.join("");
+	return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s").test(String(value));
+}
+
+function and(values: Truth[]): Truth {
+	if (values.includes(false)) return false;
+	return values.includes(null) ? null : true;
+}
+
+function or(values: Truth[]): Truth {
+	if (values.includes(true)) return true;
+	return values.includes(null) ? null : false;
+}
+
+type EvaluationContext = {
+	input: PolicySimulationInput;
+	relationships: Array<{ table: string; field: string; toTable: string; toField: string }>;
+};
+
+function result(value: Truth, path: string, condition: unknown): Evaluation {
+	return value === true ? { value } : { value, failure: { path, condition } };
+}
+
+// The failure of a conjunction is its first sub-condition that did not pass
+function combine(evaluations: Evaluation[]): Evaluation {
+	const value = and(evaluations.map((evaluation) => evaluation.value));
+	return { value, failure: evaluations.find((evaluation) => evaluation.value !== true)?.failure };
+}
+
+function evaluateCondition(context: EvaluationContext, condition: unknown, path: string, row: Row): Evaluation {
+	if (typeof condition === "boolean") return result(condition, path, condition);
+	if (!isRecord(condition)) throw new PolicySimulationError(path, "Unsupported condition");
+
+	const entries = Object.entries(condition);
+	const [entry, ...otherEntries] = entries;
+	if (!entry) throw new PolicySimulationError(path, "Empty condition");
+	if (otherEntries.length > 0) {
+		return combine(entries.map(([key, value]) => evaluateCondition(context, { [key]: value }, `${path}.${key}`, row)));
+	}
+
+	const [key, operand] = entry;
+	const operandPath = `${path}.${key}`;
+
+	if (key === "$and" || key === "$or") {
+		if (!Array.isArray(operand)) throw new PolicySimulationError(operandPath, `${key} expects an array of conditions`);
+		const evaluations = operand.map((child, index) => evaluateCondition(context, child, `${operandPath}[${index}]`, row));
+		if (key === "$and") return combine(evaluations);
+
+		return result(or(evaluations.map((evaluation) => evaluation.value)), path, condition);
+	}
+
+	if (key === "$not") {
+		const { value } = evaluateCondition(context, operand, operandPath, row);
+		return result(value === null ? null : !value, path, condition);
+	}
+
+	if (isComparison(key)) {
+		if (!Array.isArray(operand) || operand.length !== 2)
+			throw new PolicySimulationError(operandPath, `${key} expects two expressions`);
+		const order = compare(
+			evaluateExpression(context, operand[0], `${operandPath}[0]`, row),
+			evaluateExpression(context, operand[1], `${operandPath}[1]`, row),
+		);
+		return result(order === null ? null : comparisons[key](order), path, condition);
+	}
+
+	if (key.startsWith("$")) throw new PolicySimulationError(operandPath, `Unsupported operator "${key}"`);
+
+	return evaluateFieldCondition(context, key, operand, operandPath, row);
+}
+
+// Field conditions map operators to their operands, any other value is compared for equality
+function evaluateFieldCondition(
+	context: EvaluationContext,
+	fieldPath: string,
+	operand: unknown,
+	path: string,
+	row: Row,
+): Evaluation {
+	const value = resolveField(context, fieldPath, path, context.input.table, row);
+	const isOperatorMap =
+		isRecord(operand) && !isExpression(operand) && Object.keys(operand).every((operator) => operator.startsWith("$"));
+	const operators = isOperatorMap ? Object.entries(operand) : [["$eq", operand] as const];
+
+	return combine(
+		operators.map(([operator, argument]) => {
+			const operatorPath = `${path}.${operator}`;
+			const condition = { [fieldPath]: { [operator]: argument } };
+
+			if (operator === "$in" || operator === "$nin") {
+				if (!Array.isArray(argument)) throw new PolicySimulationError(operatorPath, `${operator} expects an array`);
+				const matches = or(
+					argument.map((item, index) => {
+						const order = compare(value, evaluateExpression(context, item, `${operatorPath}[${index}]`, row));
+						return order === null ? null : order === 0;
+					}),
+				);
+				return result(operator === "$in" || matches === null ? matches : !matches, operatorPath, condition);
+			}
+
+			if (operator === "$like" || operator === "$ilike") {
+				const pattern = evaluateExpression(context, argument, operatorPath, row);
+				return result(matchesPattern(value, pattern, operator === "$ilike"), operatorPath, condition);
+			}
+
+			if (!isComparison(operator)) throw new PolicySimulationError(operatorPath, `Unsupported operator "${operator}"`);
+
+			// Comparisons to null literals compile to IS NULL and IS NOT NULL
+			if (argument === null && (operator === "$eq" || operator === "$ne"))
+				return result((value === null) === (operator === "$eq"), operatorPath, condition);
+
+			const order = compare(value, evaluateExpression(context, argument, operatorPath, row));
+			return result(order === null ? null : comparisons[operator](order), operatorPath, condition);
+		}),
+	);
+}
+
+function evaluateExpression(context: EvaluationContext, expression: unknown, path: string, row: Row): Value {
+	if (Array.isArray(expression)) throw new PolicySimulationError(path, "Unsupported expression");
+	if (!isRecord(expression)) return toValue(expression);
+
+	if (typeof expression.$field === "string") return resolveField(context, expression.$field, path, context.input.table, row);
+	if (typeof expression.$var === "string") return context.input.variables?.[expression.$var] ?? null;
+	for (const literal of literalExpressions) {
+		if (typeof expression[literal] === "string") return toValue(expression[literal]);
+	}
+
+	if (isRecord(expression.$func)) {
+		const [name = "", args] = Object.entries(expression.$func)[0] ?? [];
+		const evaluate = functions[name.toUpperCase()];
+		if (!evaluate || !Array.isArray(args)) throw new PolicySimulationError(`${path}.$func`, `Unsupported function "${name}"`);
+		return evaluate(args.map((arg, index) => evaluateExpression(context, arg, `${path}.$func.${name}[${index}]`, row)));
+	}
+
+	throw new PolicySimulationError(path, "Unsupported expression");
+}
+
+function isExpression(value: Record<string, unknown>): boolean {
+	return ["$field", "$var", "$func", ...literalExpressions].some((key) => key in value);
+}
+
+// Dotted paths follow foreign keys, named after their field or referenced table, to the related rows
+function resolveField(context: EvaluationContext, fieldPath: string, path: string, table: string, row: Row): Value {
+	const [segment = "", ...rest] = fieldPath.split(".");
+	if (rest.length === 0) return toValue(row[segment]);
+	if (segment === table && !(segment in row)) return resolveField(context, rest.join("."), path, table, row);
+
+	const relationship = context.relationships.find((r) => r.table === table && (r.field === segment || r.toTable === segment));
+	if (!relationship) throw new PolicySimulationError(path, `No relationship "${segment}" from table "${table}"`);
+
+	const key = toValue(row[relationship.field]);
+	const related = context.input.relatedRows?.[relationship.toTable]?.find(
+		(candidate) => key !== null && compare(toValue(candidate[relationship.toField]), key) === 0,
+	);
+	// Missing related rows are joined as NULL
+	return related ? resolveField(context, rest.join("."), path, relationship.toTable, related) : null;
+}
+
+function appliesToRole(policy: TablePolicy, role: string | undefined): boolean {
+	if (!policy.roles) return true;
+	return policy.roles.some((name) => name.toLowerCase() === "public" || name === role);
+}
+
+/**
+ * Check whether the access control of a table allows an operation on a row, as its PostgreSQL policies would: one
+ * permissive policy has to pass, as well as every restrictive policy. Failures point to the sub-condition that failed.
+ */
+export function simulateAccessControl(model: DataModel, input: PolicySimulationInput): PolicySimulationResult {
+	const table = model.tables.find((t) => t.name === input.table);
+	if (!table) throw new PolicySimulationError("table", `Table "${input.table}" does not exist`);
+
+	const target = `${input.operation} on "${table.name}"`;
+	if (!hasRowLevelSecurity(table)) return { allowed: true, message: `Row level security allows ${target}`, failures: [] };
+
+	const context: EvaluationContext = {
+		input,
+		relationships: model.tables.flatMap(({ name: tableName, fields }) =>
+			fields.flatMap(({ name, foreignKey }) =>
+				foreignKey ? [{ table: tableName, field: name, toTable: foreignKey.table, toField: foreignKey.field }] : [],
+			),
+		),
+	};
+	const policies = getTablePolicies(table).filter(
+		(policy) => policy.operations.includes(input.operation) && appliesToRole(policy, input.role),
+	);
+	if (!policies.some((policy) => !policy.restrictive))
+		return { allowed: false, message: `No policy grants ${target}`, failures: [] };
+
+	const clauses: Array<{ clause: PolicyClause; row: Row }> = [
+		...(input.operation !== "create" ? [{ clause: "using" as const, row: input.row }] : []),
+		...(input.operation === "create" || input.operation === "update"
+			? [{ clause: "withCheck" as const, row: input.updatedRow ?? input.row }]
+			: []),
+	];
+
+	const failures = clauses.flatMap(({ clause, row }) => {
+		const evaluations = policies.map((policy) => {
+			const condition: Condition | undefined = clause === "using" ? policy.using : (policy.withCheck ?? policy.using);
+			const { failure } = evaluateCondition(context, condition ?? false, clause, row);
+			return { policy, failure: failure && { policy: policy.name, clause, ...failure } };
+		});
+		const permissive = evaluations.filter(({ policy }) => !policy.restrictive);
+		const restrictive = evaluations.filter(({ policy }) => policy.restrictive);
+		const granted = permissive.some(({ failure }) => failure === undefined);
+
+		return [...(granted ? [] : permissive), ...restrictive].flatMap(({ failure }) => (failure ? [failure] : []));
+	});
+
+	const [firstFailure] = failures;
+	if (!firstFailure) return { allowed: true, message: `Policies allow ${target}`, failures };
+
+	return {
+		allowed: false,
+		message: `Policy "${firstFailure.policy}" denies ${target}: ${firstFailure.path} is not satisfied`,
+		failures,
+	};
+}
@@ -0,0 +1,53 @@
+export type UnsafeChangeKind =
+	| "drop_table"
+	| "drop_column"
+	| "alter_type"
+	| "set_not_null"
+	| "add_unique"
+	| "add_constraint"
+	| "tighten_foreign_key"
+	| "remove_enum_value"
+	| "generate_column";
+
+export type UnsafeChange = {
+	// Stable identifier to acknowledge the change with, such as "drop_column:users.email"
+	id: string;
+	kind: UnsafeChangeKind;
+	safety: "data_loss" | "may_fail";
+	table: string;
+	target?: string;
+	message: string;
+};
+
+export type SafetyOptions = { allowDestructive?: boolean; acknowledge?: string[] };
+
+export class UnsafeMigrationError extends Error {
+	readonly changes: UnsafeChange[];
+
+	constructor(changes: UnsafeChange[]) {
+		super(
+			`Migration contains unsafe changes, pass allowDestructive or acknowledge them:\n${changes.map(({ id, message }) => `  ${id}: ${message}`).join("\n")}`,
+		);
+		this.name = "UnsafeMigrationError";
+		this.changes = changes;
+	}
+}
+
+export function createUnsafeChange(
+	kind: UnsafeChangeKind,
+	safety: UnsafeChange["safety"],
+	table: string,
+	target: string | undefined,
+	message: string,
+): UnsafeChange {
+	const id = target === undefined ? `${kind}:${table}` : `${kind}:${table}.${target}`;
+	return target === undefined ? { id, kind, safety, table, message } : { id, kind, safety, table, target, message };
+}
+
+export function assertSafeChanges(changes: UnsafeChange[], options: SafetyOptions): void {
+	if (options.allowDestructive) return;
+
+	const acknowledged = new Set(options.acknowledge ?? []);
+	const unacknowledged = changes.filter((change) => !acknowledged.has(change.id));
+	if (unacknowledged.length > 0) throw new UnsafeMigrationError(unacknowledged);
+}
@@ -1,36 +1,143 @@
-import { anyExpressionSchema, conditionSchema, fieldTypes } from "json-to-sql-parser";
+import { anyExpressionSchema, conditionSchema } from "json-to-sql-parser";
 import { z } from "zod";
 
+// Parser field types, extended with column types that map down to one of them to check conditions
+export const modelFieldTypes = [
+	"string",
+	"number",
+	"boolean",
+	"object",
+	"date",
+	"datetime",
+	"uuid",
+	"integer",
+	"bigint",
+	"decimal",
+	"varchar",
+	"enum",
+	"array",
+	"binary",
+	"time",
+	"interval",
+] as const;
+
+export const indexMethods = ["btree", "hash", "gin", "gist", "brin", "spgist"] as const;
+
+export const policyOperations = ["read", "create", "update", "delete"] as const;
+
+const referentialAction = z.enum(["cascade", "restrict", "set_null"]);
+
 export const dataModelSchema = z
 	.object({
 		tables: z.array(
 			z.object({
 				name: z.string(),
+				renamedFrom: z.string().optional(),
 				fields: z.array(
 					z.object({
 						name: z.string(),
-						type: z.enum(fieldTypes),
+						renamedFrom: z.string().optional(),
+						type: z.enum(modelFieldTypes),
+						length: z.number().int().positive().optional(),
+						precision: z.number().int().positive().optional(),
+						scale: z.number().int().nonnegative().optional(),
+						values: z.array(z.string()).min(1).optional(),
+						enum: z.string().optional(),
+						items: z.enum(modelFieldTypes).optional(),
 						nonNullable: z.boolean().optional(),
 						primaryKey: z.boolean().optional(),
+						unique: z.boolean().optional(),
 						default: anyExpressionSchema.optional(),
+						// Integer identities, random uuids and timestamps set on every update
+						autoIncrement: z.boolean().optional(),
+						autoGenerate: z.boolean().optional(),
+						autoUpdate: z.boolean().optional(),
+						generated: z.object({ expression: anyExpressionSchema, stored: z.boolean().optional() }).strict().optional(),
+						migrate: z
+							.object({ using: anyExpressionSchema.optional(), backfill: anyExpressionSchema.optional() })
+							.strict()
+							.optional(),
 						foreignKey: z
 							.object({
 								table: z.string(),
 								field: z.string(),
-								onDelete: z.enum(["cascade", "restrict", "set_null"]).optional(),
-								onUpdate: z.enum(["cascade", "restrict", "set_null"]).optional(),
+								onDelete: referentialAction.optional(),
+								onUpdate: referentialAction.optional(),
 							})
 							.strict()
 							.optional(),
 					}),
 				),
-				accessControl: z.object({
-					read: conditionSchema,
-					create: conditionSchema,
-					update: conditionSchema,
-					delete: conditionSchema,
-				}),
+				primaryKey: z.array(z.string()).min(1).optional(),
+				foreignKeys: z
+					.array(
+						z
+							.object({
+								name: z.string().optional(),
+								columns: z.array(z.string()).min(1),
+								references: z.object({ table: z.string(), columns: z.array(z.string()).min(1) }).strict(),
+								onDelete: referentialAction.optional(),
+								onUpdate: referentialAction.optional(),
+							})
+							.strict(),
+					)
+					.optional(),
+				checks: z.array(z.object({ name: z.string(), condition: conditionSchema }).strict()).optional(),
+				indexes: z
+					.array(
+						z
+							.object({
+								name: z.string().optional(),
+								columns: z.array(z.string()).min(1),
+								unique: z.boolean().optional(),
+								where: conditionSchema.optional(),
+								method: z.enum(indexMethods).optional(),
+							})
+							.strict(),
+					)
+					.optional(),
+				// Without row level security, PostgreSQL allows every operation regardless of the access control
+				rowLevelSecurity: z.boolean().optional(),
+				// Also applies row level security to the table owner
+				forceRowLevelSecurity: z.boolean().optional(),
+				// Shorthand for one permissive policy per operation
+				accessControl: z
+					.object({
+						read: conditionSchema,
+						create: conditionSchema,
+						update: conditionSchema,
+						delete: conditionSchema,
+					})
+					.optional(),
+				policies: z
+					.array(
+						z
+							.object({
+								name: z.string(),
+								operations: z.array(z.enum(policyOperations)).min(1),
+								roles: z.array(z.string()).min(1).optional(),
+								restrictive: z.boolean().optional(),
+								using: conditionSchema.optional(),
+								withCheck: conditionSchema.optional(),
+							})
+							.strict(),
+					)
+					.optional(),
 			}),
 		),
+		enums: z
+			.array(
+				z
+					.object({
+						name: z.string(),
+						values: z.array(z.string()).min(1),
+						// Maps a new value to the value it is renamed from
+						renamedValues: z.record(z.string(), z.string()).optional(),
+					})
+					.strict(),
+			)
+			.optional(),
 	})
 	.strict();
+
+export type DataModel = z.infer<typeof dataModelSchema>;
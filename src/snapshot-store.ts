@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { hashDataModel } from "./hashing";
+import { type MigrationDriver, quoteLiteral } from "./migration-runner";
+import { dataModelSchema } from "./schemas";
+
+export const SNAPSHOTS_TABLE = "_schema_snapshots";
+
+export const modelSnapshotSchema = z.object({
+	id: z.string(),
+	// Snapshot the migration was generated from, null for the initial migration
+	parentId: z.string().nullable(),
+	parentHash: z.string().nullable(),
+	hash: z.string(),
+	model: dataModelSchema,
+});
+
+const snapshotRowSchema = z.object({
+	id: z.string(),
+	parent_id: z.string().nullable(),
+	parent_hash: z.string().nullable(),
+	hash: z.string(),
+	model: z.string(),
+});
+
+export type ModelSnapshot = z.infer<typeof modelSnapshotSchema>;
+
+export type SnapshotStore = {
+	list: () => Promise<ModelSnapshot[]>;
+	// Called once the migration of the snapshot is generated, stores may persist the migration along with it
+	save: (snapshot: ModelSnapshot, migration: { up: string; down: string }) => Promise<void>;
+};
+
+export class SnapshotError extends Error {
+	readonly snapshotIds: string[];
+	readonly reason: "conflict" | "hash_mismatch" | "missing_parent" | "duplicate_id";
+
+	constructor(snapshotIds: string[], reason: SnapshotError["reason"], message: string) {
+		super(`${snapshotIds.length === 1 ? "Snapshot" : "Snapshots"} ${snapshotIds.map((id) => `"${id}"`).join(", ")}: ${message}`);
+		this.name = "SnapshotError";
+		this.snapshotIds = snapshotIds;
+		this.reason = reason;
+	}
+}
+
+// Snapshots generated from the same parent are rejected by the unique constraint, except for initial ones
+export function createDatabaseSnapshotStore(driver: MigrationDriver): SnapshotStore {
+	const createTable = () =>
+		driver.execute(
+			`CREATE TABLE IF NOT EXISTS "${SNAPSHOTS_TABLE}" (id TEXT PRIMARY KEY, parent_id TEXT UNIQUE, parent_hash TEXT, hash TEXT NOT NULL, model TEXT NOT NULL);`,
+		);
+
+	return {
+		list: async () => {
+			await createTable();
+			const rows = await driver.query(`SELECT id, parent_id, parent_hash, hash, model FROM "${SNAPSHOTS_TABLE}" ORDER BY id;`);
+			return z
+				.array(snapshotRowSchema)
+				.parse(rows)
+				.map((row) =>
+					modelSnapshotSchema.parse({
+						id: row.id,
+						parentId: row.parent_id,
+						parentHash: row.parent_hash,
+						hash: row.hash,
+						model: JSON.parse(row.model),
+					}),
+				);
+		},
+		save: async (snapshot) => {
+			await createTable();
+			const values = [snapshot.id, snapshot.parentId, snapshot.parentHash, snapshot.hash, JSON.stringify(snapshot.model)];
+			await driver.execute(
+				`INSERT INTO "${SNAPSHOTS_TABLE}" (id, parent_id, parent_hash, hash, model) VALUES (${values.map(quoteLiteral).join(", ")});`,
+			);
+		},
+	};
+}
+
+/**
+ * Follow the snapshots from the initial one to the latest. Throws a `SnapshotError` when two snapshots were generated
+ * from the same parent, as happens when migrations are generated on two branches, when a snapshot was edited, or when
+ * a snapshot cannot be reached from the initial one.
+ */
+export function getLatestSnapshot(snapshots: ModelSnapshot[]): ModelSnapshot | undefined {
+	for (const snapshot of snapshots) {
+		if (hashDataModel(snapshot.model) !== snapshot.hash)
+			throw new SnapshotError([snapshot.id], "hash_mismatch", "edited after being generated");
+	}
+
+	let latest: ModelSnapshot | undefined;
+	const reached = new Set<string>();
+	for (;;) {
+		const parentId = latest?.id ?? null;
+		const children = snapshots.filter((snapshot) => snapshot.parentId === parentId);
+		const [child] = children;
+		if (child === undefined) break;
+
+		if (children.length > 1) {
+			const message = latest ? `generated from the same snapshot "${latest.id}"` : "generated without a parent snapshot";
+			throw new SnapshotError(
+				children.map((snapshot) => snapshot.id),
+				"conflict",
+				`${message}, regenerate all but one of them from the latest snapshot`,
+			);
+		}
+		if (child.parentHash !== (latest?.hash ?? null))
+			throw new SnapshotError([child.id], "hash_mismatch", `generated from another version of "${parentId}"`);
+
+		latest = child;
+		reached.add(child.id);
+	}
+
+	const unreachable = snapshots.filter(({ id }) => !reached.has(id)).map(({ id }) => id);
+	if (unreachable.length > 0)
+		throw new SnapshotError(unreachable, "missing_parent", "generated from a snapshot that does not exist");
+
+	return latest;
+}
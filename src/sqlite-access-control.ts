@@ -0,0 +1,109 @@
+import { type Dialect, ExpressionTypeMap, parseCondition } from "json-to-sql-parser";
+import { createParserConfig } from "./parser-config";
+import { getOperationCondition, hasRowLevelSecurity, type PolicyOperation } from "./policies";
+import type { DataModel } from "./schemas";
+import { createStatement, joinStatements, type MigrationStatement } from "./statements";
+import { assertValidDataModel } from "./validation";
+import {
+	type BoundVariables,
+	bindVariables,
+	defaultVariableBindings,
+	SESSION_VARIABLES_TABLE,
+	substituteRuntimeVariables,
+	type VariableBindings,
+} from "./variables";
+
+type Table = DataModel["tables"][number];
+
+export type SQLiteAccessControlOptions = { variables?: VariableBindings };
+export type SQLiteAccessControl = { sql: string; statements: MigrationStatement[] };
+
+const writeOperations = ["create", "update", "delete"] as const;
+const triggerEvents = { create: "INSERT", update: "UPDATE", delete: "DELETE" } as const;
+
+export function getSecureViewName(tableName: string): string {
+	return `${tableName}_secure`;
+}
+
+function getAccessTriggerName(tableName: string, operation: PolicyOperation): string {
+	return `${tableName}_${operation}_access`;
+}
+
+// Settings already written by the connection are kept when its access control is created again
+function generateCreateSessionTableStatement(): MigrationStatement {
+	const sql = `CREATE TEMP TABLE IF NOT EXISTS "${SESSION_VARIABLES_TABLE}" ("name" TEXT PRIMARY KEY, "value");`;
+	return createStatement("create_table", SESSION_VARIABLES_TABLE, sql);
+}
+
+/**
+ * Emulate the policies of a table on SQLite: rows are read through a view filtering them with the read condition, and
+ * triggers abort the writes the other conditions deny. Conditions are evaluated against the written row exposed under
+ * the table name, so that they compile as they do for PostgreSQL policies.
+ */
+function generateCreateAccessControlStatements(
+	table: Table,
+	model: DataModel,
+	dialect: Dialect,
+	boundVariables: BoundVariables,
+): MigrationStatement[] {
+	const state = {
+		rootTable: table.name,
+		expressions: new ExpressionTypeMap(),
+		config: createParserConfig(model, dialect, boundVariables),
+	};
+	const compileCondition = (operation: PolicyOperation, clause: "using" | "withCheck") =>
+		substituteRuntimeVariables(parseCondition(getOperationCondition(table, operation, clause), state), boundVariables, state);
+	const allows = (row: "NEW" | "OLD", condition: string) => {
+		const columns = table.fields.map((field) => `${row}."${field.name}" AS "${field.name}"`).join(", ");
+		return `EXISTS (SELECT 1 FROM (SELECT ${columns}) AS "${table.name}" WHERE ${condition})`;
+	};
+	const checks = {
+		create: [allows("NEW", compileCondition("create", "withCheck"))],
+		update: [allows("OLD", compileCondition("update", "using")), allows("NEW", compileCondition("update", "withCheck"))],
+		delete: [allows("OLD", compileCondition("delete", "using"))],
+	};
+
+	const viewSQL = `CREATE TEMP VIEW "${getSecureViewName(table.name)}" AS SELECT * FROM "main"."${table.name}" WHERE ${compileCondition("read", "using")};`;
+	const triggers = writeOperations.map((operation) => {
+		const sql = `CREATE TEMP TRIGGER "${getAccessTriggerName(table.name, operation)}" BEFORE ${triggerEvents[operation]} ON "main"."${table.name}" FOR EACH ROW WHEN NOT (${checks[operation].join(" AND ")}) BEGIN
+  SELECT RAISE(ABORT, 'Access denied: ${operation} on ${table.name}');
+END;`;
+		return createStatement("create_trigger", table.name, sql);
+	});
+
+	return [createStatement("create_view", table.name, viewSQL), ...triggers];
+}
+
+function generateDropAccessControlStatements(tableName: string): MigrationStatement[] {
+	const view = createStatement("drop_view", tableName, `DROP VIEW IF EXISTS "temp"."${getSecureViewName(tableName)}";`);
+	const triggers = writeOperations.map((operation) =>
+		createStatement("drop_trigger", tableName, `DROP TRIGGER IF EXISTS "temp"."${getAccessTriggerName(tableName, operation)}";`),
+	);
+	return [view, ...triggers];
+}
+
+/**
+ * Generate the SQL emulating the access control of a data model on a SQLite connection. Its session table, views and
+ * triggers are TEMP objects, private to the connection running them: run it on each connection once opened, and again
+ * once migrations are applied, as rebuilding a table drops its triggers.
+ */
+export function generateSQLiteAccessControl(
+	model: DataModel,
+	dialect: Dialect.SQLITE_MINIMAL | Dialect.SQLITE_EXTENSIONS,
+	options: SQLiteAccessControlOptions = {},
+): SQLiteAccessControl {
+	assertValidDataModel(model, dialect, options);
+
+	const boundVariables = bindVariables(options.variables ?? defaultVariableBindings, dialect);
+	const statements = [
+		generateCreateSessionTableStatement(),
+		...model.tables
+			.filter(hasRowLevelSecurity)
+			.flatMap((table) => [
+				...generateDropAccessControlStatements(table.name),
+				...generateCreateAccessControlStatements(table, model, dialect, boundVariables),
+			]),
+	];
+
+	return { sql: joinStatements(statements), statements };
+}
@@ -0,0 +1,80 @@
+export type StatementKind =
+	| "create_table"
+	| "drop_table"
+	| "rename_table"
+	| "copy_data"
+	| "backfill"
+	| "enable_rls"
+	| "disable_rls"
+	| "force_rls"
+	| "no_force_rls"
+	| "add_column"
+	| "drop_column"
+	| "rename_column"
+	| "alter_type"
+	| "alter_nullability"
+	| "alter_default"
+	| "add_fk"
+	| "drop_fk"
+	| "add_constraint"
+	| "drop_constraint"
+	| "rename_constraint"
+	| "create_index"
+	| "drop_index"
+	| "rename_index"
+	| "policy"
+	| "drop_policy"
+	| "rename_policy"
+	| "create_enum"
+	| "drop_enum"
+	| "rename_enum"
+	| "add_enum_value"
+	| "rename_enum_value"
+	| "alter_identity"
+	| "drop_expression"
+	| "create_function"
+	| "drop_function"
+	| "rename_function"
+	| "create_trigger"
+	| "drop_trigger"
+	| "rename_trigger"
+	| "create_view"
+	| "drop_view"
+	| "pragma"
+	| "check_foreign_keys";
+
+export type MigrationStatement = {
+	sql: string;
+	kind: StatementKind;
+	// The affected table, or enum for enum statements
+	table: string;
+	column?: string;
+	// Whether running the statement can lose existing data
+	destructive: boolean;
+	// Whether the statement can run inside a transaction
+	transactional: boolean;
+};
+
+type StatementDetails = { column?: string; destructive?: boolean; transactional?: boolean };
+
+export function createStatement(
+	kind: StatementKind,
+	table: string,
+	sql: string,
+	details: StatementDetails = {},
+): MigrationStatement {
+	const statement: MigrationStatement = {
+		sql,
+		kind,
+		table,
+		destructive: details.destructive ?? false,
+		transactional: details.transactional ?? true,
+	};
+	if (details.column !== undefined) statement.column = details.column;
+
+	return statement;
+}
+
+export function joinStatements(statements: MigrationStatement[]): string {
+	return statements.map((statement) => statement.sql).join("\n\n");
+}
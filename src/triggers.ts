@@ -0,0 +1,83 @@
+import { Dialect } from "json-to-sql-parser";
+import { createStatement, type MigrationStatement } from "./statements";
+
+type AutoUpdateField = { table: string; field: string };
+
+export function getAutoUpdateTriggerName(tableName: string, fieldName: string): string {
+	return `${tableName}_${fieldName}_auto_update`;
+}
+
+/**
+ * Keep a timestamp field current on updates, unless the update sets it itself. PostgreSQL sets it from a trigger
+ * function before the row is written, while SQLite updates the row again once it is written.
+ */
+export function generateCreateAutoUpdateStatements(tableName: string, fieldName: string, dialect: Dialect): MigrationStatement[] {
+	const name = getAutoUpdateTriggerName(tableName, fieldName);
+	const details = { column: fieldName };
+
+	if (dialect !== Dialect.POSTGRESQL) {
+		const sql = `CREATE TRIGGER "${name}" AFTER UPDATE ON "${tableName}" FOR EACH ROW WHEN NEW."${fieldName}" IS OLD."${fieldName}" BEGIN
+  UPDATE "${tableName}" SET "${fieldName}" = CURRENT_TIMESTAMP WHERE rowid = NEW.rowid;
+END;`;
+		return [createStatement("create_trigger", tableName, sql, details)];
+	}
+
+	const functionSQL = `CREATE OR REPLACE FUNCTION "${name}"() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW."${fieldName}" IS NOT DISTINCT FROM OLD."${fieldName}" THEN
+    NEW."${fieldName}" = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;`;
+	const triggerSQL = `CREATE TRIGGER "${name}" BEFORE UPDATE ON "${tableName}" FOR EACH ROW EXECUTE FUNCTION "${name}"();`;
+
+	return [
+		createStatement("create_function", tableName, functionSQL, details),
+		createStatement("create_trigger", tableName, triggerSQL, details),
+	];
+}
+
+// Dropping a table drops its triggers, but PostgreSQL keeps their functions
+export function generateDropAutoUpdateStatements(
+	tableName: string,
+	fieldName: string,
+	dialect: Dialect,
+	{ tableDropped = false } = {},
+): MigrationStatement[] {
+	const name = getAutoUpdateTriggerName(tableName, fieldName);
+	const details = { column: fieldName };
+	const dropFunction = createStatement("drop_function", tableName, `DROP FUNCTION IF EXISTS "${name}"();`, details);
+
+	if (dialect !== Dialect.POSTGRESQL)
+		return tableDropped ? [] : [createStatement("drop_trigger", tableName, `DROP TRIGGER IF EXISTS "${name}";`, details)];
+	if (tableDropped) return [dropFunction];
+
+	return [
+		createStatement("drop_trigger", tableName, `DROP TRIGGER IF EXISTS "${name}" ON "${tableName}";`, details),
+		dropFunction,
+	];
+}
+
+// PostgreSQL functions reference their field by name, so they are only renamed along with their table
+export function generateRenameAutoUpdateStatements(
+	from: AutoUpdateField,
+	to: AutoUpdateField,
+	dialect: Dialect,
+): MigrationStatement[] {
+	const [fromName, toName] = [getAutoUpdateTriggerName(from.table, from.field), getAutoUpdateTriggerName(to.table, to.field)];
+	const details = { column: to.field };
+
+	if (dialect === Dialect.POSTGRESQL && from.field === to.field) {
+		return [
+			createStatement("rename_trigger", to.table, `ALTER TRIGGER "${fromName}" ON "${to.table}" RENAME TO "${toName}";`, details),
+			createStatement("rename_function", to.table, `ALTER FUNCTION "${fromName}"() RENAME TO "${toName}";`, details),
+		];
+	}
+
+	// SQLite updates the triggers of renamed tables and columns, but keeps their names
+	return [
+		...generateDropAutoUpdateStatements(from.table, from.field, dialect),
+		...generateCreateAutoUpdateStatements(to.table, to.field, dialect),
+	];
+}
@@ -0,0 +1,338 @@
+import type { Condition } from "json-to-sql-parser";
+import { Dialect, ExpressionTypeMap, parseCondition, parseExpression } from "json-to-sql-parser";
+import { getFieldConstraintName, getForeignKeyName, getIndexName, getPrimaryKey, getTableConstraints } from "./constraints";
+import { createParserConfig } from "./parser-config";
+import { hasRowLevelSecurity } from "./policies";
+import { type DataModel, policyOperations } from "./schemas";
+import { bindVariables, defaultVariableBindings, type VariableBindings } from "./variables";
+
+export type ValidationIssue = { severity: "error" | "warning"; path: string; message: string };
+export type ValidationOptions = { variables?: VariableBindings };
+
+export class DataModelValidationError extends Error {
+	readonly issues: ValidationIssue[];
+
+	constructor(issues: ValidationIssue[]) {
+		super(`Invalid data model:\n${issues.map(({ path, message }) => `  ${path}: ${message}`).join("\n")}`);
+		this.name = "DataModelValidationError";
+		this.issues = issues;
+	}
+}
+
+type Table = DataModel["tables"][number];
+
+const POSTGRESQL_IDENTIFIER_MAX_LENGTH = 63;
+const TYPE_PARAMETERS = {
+	length: "varchar",
+	precision: "decimal",
+	scale: "decimal",
+	values: "enum",
+	enum: "enum",
+	items: "array",
+} as const;
+
+// Foreign keys can only reference a primary key or a set of unique columns
+function isUniqueKey(table: Table, columns: string[]): boolean {
+	const hasSameColumns = (keyColumns: string[]) =>
+		keyColumns.length === columns.length && keyColumns.every((column) => columns.includes(column));
+
+	return (
+		hasSameColumns(getPrimaryKey(table)) ||
+		(columns.length === 1 && table.fields.some((field) => field.name === columns[0] && field.unique)) ||
+		(table.indexes ?? []).some((index) => index.unique && index.where === undefined && hasSameColumns(index.columns))
+	);
+}
+
+/**
+ * Check a data model for semantic errors that its schema cannot express, such as dangling foreign keys
+ */
+export function validateDataModel(model: DataModel, dialect: Dialect, options: ValidationOptions = {}): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	const error = (path: string, message: string) => issues.push({ severity: "error", path, message });
+	const warning = (path: string, message: string) => issues.push({ severity: "warning", path, message });
+
+	const config = createParserConfig(model, dialect, bindVariables(options.variables ?? defaultVariableBindings));
+	// Checks and partial indexes are evaluated by the database itself, without any runtime variable
+	const schemaConfig = createParserConfig(model, dialect);
+	const validateCondition = (path: string, condition: Condition, rootTable: string, label: string) => {
+		try {
+			parseCondition(condition, { config: schemaConfig, rootTable, expressions: new ExpressionTypeMap() });
+		} catch (parseError) {
+			const message = parseError instanceof Error ? parseError.message : String(parseError);
+			error(path, `Invalid ${label} condition: ${message}`);
+		}
+	};
+
+	(model.enums ?? []).forEach((enumType, enumIndex) => {
+		const enumPath = `enums[${enumIndex}]`;
+
+		if (model.enums?.findIndex((e) => e.name === enumType.name) !== enumIndex)
+			error(`${enumPath}.name`, `Duplicate enum "${enumType.name}"`);
+		if (new Set(enumType.values).size !== enumType.values.length)
+			error(`${enumPath}.values`, `Enum "${enumType.name}" has duplicate values`);
+		for (const value of Object.keys(enumType.renamedValues ?? {})) {
+			if (!enumType.values.includes(value))
+				error(`${enumPath}.renamedValues`, `Renamed value "${value}" is not a value of enum "${enumType.name}"`);
+		}
+	});
+
+	model.tables.forEach((table, tableIndex) => {
+		const tablePath = `tables[${tableIndex}]`;
+
+		if (model.tables.findIndex((t) => t.name === table.name) !== tableIndex)
+			error(`${tablePath}.name`, `Duplicate table "${table.name}"`);
+		if (getPrimaryKey(table).length === 0) warning(tablePath, `Table "${table.name}" has no primary key`);
+		if (table.primaryKey && table.fields.some((field) => field.primaryKey)) {
+			error(`${tablePath}.primaryKey`, `Table "${table.name}" declares both a table and field primary keys`);
+		}
+		for (const column of table.primaryKey ?? []) {
+			if (!table.fields.some((f) => f.name === column))
+				error(`${tablePath}.primaryKey`, `Primary key field "${column}" does not exist in table "${table.name}"`);
+		}
+
+		const constraintNames = getTableConstraints(table).map((constraint) => constraint.name);
+
+		table.fields.forEach((field, fieldIndex) => {
+			const fieldPath = `${tablePath}.fields[${fieldIndex}]`;
+
+			if (table.fields.findIndex((f) => f.name === field.name) !== fieldIndex) {
+				error(`${fieldPath}.name`, `Duplicate field "${field.name}" in table "${table.name}"`);
+			}
+
+			for (const parameter of ["length", "precision", "scale", "values", "enum", "items"] as const) {
+				const type = TYPE_PARAMETERS[parameter];
+				if (field[parameter] !== undefined && field.type !== type)
+					error(`${fieldPath}.${parameter}`, `"${parameter}" only applies to ${type} fields`);
+			}
+			if (field.scale !== undefined && (field.precision === undefined || field.scale > field.precision))
+				error(`${fieldPath}.scale`, `Scale of field "${field.name}" must not exceed its precision`);
+			if (field.type === "enum" && (field.values === undefined) === (field.enum === undefined))
+				error(`${fieldPath}.values`, `Enum field "${field.name}" needs either values or an enum`);
+			if (field.enum !== undefined && !model.enums?.some((e) => e.name === field.enum))
+				error(`${fieldPath}.enum`, `Enum "${field.enum}" does not exist`);
+			if (field.values && new Set(field.values).size !== field.values.length)
+				error(`${fieldPath}.values`, `Enum field "${field.name}" has duplicate values`);
+			if (field.type === "array" && !field.items) error(`${fieldPath}.items`, `Array field "${field.name}" has no item type`);
+			if (field.items === "array" || field.items === "enum")
+				error(`${fieldPath}.items`, `Arrays of ${field.items} are not supported`);
+
+			if (field.autoIncrement && field.type !== "integer" && field.type !== "bigint")
+				error(`${fieldPath}.autoIncrement`, `"autoIncrement" only applies to integer and bigint fields`);
+			if (field.autoIncrement && !field.nonNullable && !field.primaryKey)
+				error(`${fieldPath}.autoIncrement`, `Auto-increment field "${field.name}" must be non-nullable`);
+			// SQLite only increments the rowid, which is aliased by an INTEGER PRIMARY KEY
+			if (field.autoIncrement && dialect !== Dialect.POSTGRESQL && (!field.primaryKey || getPrimaryKey(table).length > 1))
+				error(`${fieldPath}.autoIncrement`, `Auto-increment field "${field.name}" must be the primary key on SQLite`);
+			if (field.autoGenerate && field.type !== "uuid")
+				error(`${fieldPath}.autoGenerate`, `"autoGenerate" only applies to uuid fields`);
+			if (field.autoUpdate && field.type !== "datetime")
+				error(`${fieldPath}.autoUpdate`, `"autoUpdate" only applies to datetime fields`);
+			if ((field.autoIncrement || field.autoGenerate) && field.default !== undefined)
+				error(`${fieldPath}.default`, `Generated field "${field.name}" cannot have a default`);
+
+			if (field.generated) {
+				const { expression, stored } = field.generated;
+				if (field.default !== undefined || field.autoIncrement || field.autoGenerate || field.primaryKey)
+					error(
+						`${fieldPath}.generated`,
+						`Generated field "${field.name}" cannot have a default, be auto-generated or be a primary key`,
+					);
+				if (stored === false && dialect === Dialect.POSTGRESQL)
+					warning(`${fieldPath}.generated.stored`, `Generated field "${field.name}" is stored by PostgreSQL`);
+				try {
+					parseExpression(expression, { config: schemaConfig, rootTable: table.name, expressions: new ExpressionTypeMap() });
+				} catch (parseError) {
+					const message = parseError instanceof Error ? parseError.message : String(parseError);
+					error(`${fieldPath}.generated.expression`, `Invalid generated expression: ${message}`);
+				}
+			}
+
+			const { foreignKey } = field;
+			if (!foreignKey) return;
+
+			const constraintName = getFieldConstraintName("foreignKey", table.name, field.name);
+			if (dialect === Dialect.POSTGRESQL && constraintName.length > POSTGRESQL_IDENTIFIER_MAX_LENGTH) {
+				warning(`${fieldPath}.foreignKey`, `Constraint name "${constraintName}" will be truncated by PostgreSQL`);
+			}
+
+			for (const action of ["onDelete", "onUpdate"] as const) {
+				if (foreignKey[action] === "set_null" && field.nonNullable) {
+					error(`${fieldPath}.foreignKey.${action}`, `"set_null" cannot be used on non-nullable field "${field.name}"`);
+				}
+			}
+
+			const referencedTable = model.tables.find((t) => t.name === foreignKey.table);
+			if (!referencedTable) {
+				error(`${fieldPath}.foreignKey.table`, `Referenced table "${foreignKey.table}" does not exist`);
+				return;
+			}
+
+			const referencedField = referencedTable.fields.find((f) => f.name === foreignKey.field);
+			if (!referencedField) {
+				error(`${fieldPath}.foreignKey.field`, `Referenced field "${foreignKey.table}.${foreignKey.field}" does not exist`);
+				return;
+			}
+
+			if (!isUniqueKey(referencedTable, [foreignKey.field])) {
+				error(
+					`${fieldPath}.foreignKey.field`,
+					`Referenced field "${foreignKey.table}.${foreignKey.field}" is neither a primary key nor unique`,
+				);
+			}
+
+			if (referencedField.type !== field.type) {
+				error(
+					`${fieldPath}.foreignKey`,
+					`Field "${field.name}" of type "${field.type}" cannot reference "${foreignKey.table}.${foreignKey.field}" of type "${referencedField.type}"`,
+				);
+			}
+		});
+
+		(table.foreignKeys ?? []).forEach((foreignKey, foreignKeyIndex) => {
+			const foreignKeyPath = `${tablePath}.foreignKeys[${foreignKeyIndex}]`;
+			const { columns, references } = foreignKey;
+
+			const constraintName = getForeignKeyName(table.name, foreignKey);
+			if (constraintNames.indexOf(constraintName) !== constraintNames.lastIndexOf(constraintName))
+				error(foreignKeyPath, `Duplicate constraint "${constraintName}" in table "${table.name}"`);
+			if (dialect === Dialect.POSTGRESQL && constraintName.length > POSTGRESQL_IDENTIFIER_MAX_LENGTH) {
+				warning(foreignKeyPath, `Constraint name "${constraintName}" will be truncated by PostgreSQL`);
+			}
+
+			const fields = columns.map((column) => table.fields.find((f) => f.name === column));
+			columns.forEach((column, columnIndex) => {
+				if (!fields[columnIndex]) error(`${foreignKeyPath}.columns`, `Field "${column}" does not exist in table "${table.name}"`);
+			});
+
+			for (const action of ["onDelete", "onUpdate"] as const) {
+				if (foreignKey[action] === "set_null" && fields.some((field) => field?.nonNullable)) {
+					error(`${foreignKeyPath}.${action}`, `"set_null" cannot be used on non-nullable fields`);
+				}
+			}
+
+			const referencedTable = model.tables.find((t) => t.name === references.table);
+			if (!referencedTable) {
+				error(`${foreignKeyPath}.references.table`, `Referenced table "${references.table}" does not exist`);
+				return;
+			}
+
+			if (references.columns.length !== columns.length) {
+				error(
+					`${foreignKeyPath}.references.columns`,
+					`Expected ${columns.length} referenced fields, got ${references.columns.length}`,
+				);
+				return;
+			}
+
+			const referencedFields = references.columns.map((column) => referencedTable.fields.find((f) => f.name === column));
+			const missingColumns = references.columns.filter((_, columnIndex) => !referencedFields[columnIndex]);
+			if (missingColumns.length > 0) {
+				error(
+					`${foreignKeyPath}.references.columns`,
+					`Referenced fields ${missingColumns.map((column) => `"${references.table}.${column}"`).join(", ")} do not exist`,
+				);
+				return;
+			}
+
+			if (!isUniqueKey(referencedTable, references.columns)) {
+				error(`${foreignKeyPath}.references.columns`, `Referenced fields are neither a primary key nor unique`);
+			}
+
+			fields.forEach((field, columnIndex) => {
+				const referencedField = referencedFields[columnIndex];
+				if (field && referencedField && field.type !== referencedField.type) {
+					error(
+						foreignKeyPath,
+						`Field "${field.name}" of type "${field.type}" cannot reference "${references.table}.${referencedField.name}" of type "${referencedField.type}"`,
+					);
+				}
+			});
+		});
+
+		(table.checks ?? []).forEach((check, checkIndex) => {
+			const checkPath = `${tablePath}.checks[${checkIndex}]`;
+
+			if (constraintNames.indexOf(check.name) !== constraintNames.lastIndexOf(check.name))
+				error(`${checkPath}.name`, `Duplicate constraint "${check.name}" in table "${table.name}"`);
+			validateCondition(`${checkPath}.condition`, check.condition, table.name, "check");
+		});
+
+		const indexNames = new Set<string>();
+		(table.indexes ?? []).forEach((index, indexIndex) => {
+			const indexPath = `${tablePath}.indexes[${indexIndex}]`;
+			const indexName = getIndexName(table.name, index);
+
+			// Index names share the schema namespace in both dialects
+			const isDuplicate =
+				indexNames.has(indexName) ||
+				model.tables.some((t) => t !== table && (t.indexes ?? []).some((i) => getIndexName(t.name, i) === indexName));
+			if (isDuplicate) error(indexPath, `Duplicate index "${indexName}"`);
+			indexNames.add(indexName);
+
+			for (const column of index.columns) {
+				if (!table.fields.some((f) => f.name === column)) {
+					error(`${indexPath}.columns`, `Indexed field "${column}" does not exist in table "${table.name}"`);
+				}
+			}
+
+			if (index.method && dialect !== Dialect.POSTGRESQL) {
+				warning(`${indexPath}.method`, `Index method "${index.method}" is ignored outside of PostgreSQL`);
+			}
+
+			if (index.where !== undefined) validateCondition(`${indexPath}.where`, index.where, table.name, "index");
+		});
+
+		const validatePolicyCondition = (path: string, condition: Condition, label: string) => {
+			try {
+				parseCondition(condition, { config, rootTable: table.name, expressions: new ExpressionTypeMap() });
+			} catch (parseError) {
+				const message = parseError instanceof Error ? parseError.message : String(parseError);
+				error(path, `Invalid ${label} condition: ${message}`);
+			}
+		};
+
+		// Row level security denies the operations without a policy, which an access control has to state explicitly
+		if (hasRowLevelSecurity(table) && !table.accessControl && (table.policies?.length ?? 0) === 0) {
+			error(`${tablePath}.accessControl`, `Table "${table.name}" must have an access control or policies`);
+		}
+
+		for (const [operation, condition] of Object.entries(table.accessControl ?? {})) {
+			validatePolicyCondition(`${tablePath}.accessControl.${operation}`, condition, operation);
+		}
+
+		const policyNames = new Set(
+			table.accessControl ? policyOperations.map((operation) => `${table.name}_${operation}_policy`) : [],
+		);
+		table.policies?.forEach((policy, policyIndex) => {
+			const policyPath = `${tablePath}.policies[${policyIndex}]`;
+			const filtersRows = policy.operations.some((operation) => operation !== "create");
+			const checksRows = policy.operations.some((operation) => operation === "create" || operation === "update");
+
+			if (policyNames.has(policy.name)) error(`${policyPath}.name`, `Duplicate policy "${policy.name}"`);
+			policyNames.add(policy.name);
+
+			if (filtersRows && policy.using === undefined) {
+				error(
+					`${policyPath}.using`,
+					`Policy "${policy.name}" needs a using condition for its read, update and delete operations`,
+				);
+			}
+			if (!filtersRows && policy.using === undefined && policy.withCheck === undefined) {
+				error(`${policyPath}.withCheck`, `Policy "${policy.name}" needs a withCheck condition`);
+			}
+			if (!checksRows && policy.withCheck !== undefined) {
+				error(`${policyPath}.withCheck`, "A withCheck condition only applies to create and update operations");
+			}
+
+			if (policy.using !== undefined) validatePolicyCondition(`${policyPath}.using`, policy.using, "using");
+			if (policy.withCheck !== undefined) validatePolicyCondition(`${policyPath}.withCheck`, policy.withCheck, "withCheck");
+		});
+	});
+
+	return issues;
+}
+
+export function assertValidDataModel(model: DataModel, dialect: Dialect, options: ValidationOptions = {}): void {
+	const errors = validateDataModel(model, dialect, options).filter((issue) => issue.severity === "error");
+	if (errors.length > 0) throw new DataModelValidationError(errors);
+}
@@ -0,0 +1,76 @@
+import type { AnyExpression, Config, ParserState } from "json-to-sql-parser";
+import { Dialect, parseExpression } from "json-to-sql-parser";
+
+export type RuntimeVariableType = "string" | "number" | "uuid";
+
+export type VariableBinding =
+	| { type: RuntimeVariableType; setting: string }
+	| { type: RuntimeVariableType; sql: string }
+	| { value: AnyExpression };
+
+export type VariableBindings = Record<string, VariableBinding>;
+
+export type BoundVariables = {
+	variables: Config["variables"];
+	runtime: Array<{ placeholder: AnyExpression; sql: string }>;
+};
+
+export const defaultVariableBindings: VariableBindings = { user_id: { type: "uuid", setting: "app.user_id" } };
+
+// SQLite has no settings, each connection writes them into its own TEMP table instead
+export const SESSION_VARIABLES_TABLE = "_session_variables";
+
+const runtimeCasts: Record<RuntimeVariableType, string> = { string: "TEXT", number: "NUMERIC", uuid: "UUID" };
+
+/**
+ * Create a literal the parser can type-check in place of a runtime variable. Its rendered SQL is
+ * replaced by the runtime source after parsing, so each placeholder must be unique to its variable.
+ */
+function createPlaceholder(type: RuntimeVariableType, index: number): AnyExpression {
+	if (type === "uuid") return { $uuid: `00000000-0000-4000-8000-${index.toString(16).padStart(12, "0")}` };
+	if (type === "number") return -(987_654_321_000 + index);
+	return `__runtime_variable_${index}__`;
+}
+
+function toRuntimeSQL(binding: Exclude<VariableBinding, { value: AnyExpression }>, dialect: Dialect): string {
+	if ("setting" in binding && dialect !== Dialect.POSTGRESQL) {
+		return `(SELECT "value" FROM "temp"."${SESSION_VARIABLES_TABLE}" WHERE "name" = '${binding.setting.replace(/'/g, "''")}')`;
+	}
+	if ("setting" in binding) {
+		const setting = `NULLIF(current_setting('${binding.setting.replace(/'/g, "''")}', true), '')`;
+		return binding.type === "string" ? setting : `${setting}::${runtimeCasts[binding.type]}`;
+	}
+
+	return `(${binding.sql})`;
+}
+
+/**
+ * Resolve variable bindings into parser variables, keeping track of those that are read at query time
+ */
+export function bindVariables(bindings: VariableBindings, dialect: Dialect = Dialect.POSTGRESQL): BoundVariables {
+	const variables: Config["variables"] = {};
+	const runtime: BoundVariables["runtime"] = [];
+
+	for (const [name, binding] of Object.entries(bindings)) {
+		if ("value" in binding) {
+			variables[name] = binding.value;
+			continue;
+		}
+
+		const placeholder = createPlaceholder(binding.type, runtime.length);
+		variables[name] = placeholder;
+		runtime.push({ placeholder, sql: toRuntimeSQL(binding, dialect) });
+	}
+
+	return { variables, runtime };
+}
+
+/**
+ * Replace the placeholders of runtime variables in parsed SQL with their runtime sources
+ */
+export function substituteRuntimeVariables(sql: string, bound: BoundVariables, state: ParserState): string {
+	return bound.runtime.reduce((result, { placeholder, sql: runtimeSQL }) => {
+		const placeholderSQL = parseExpression(placeholder, state);
+		return result.split(placeholderSQL).join(runtimeSQL);
+	}, sql);
+}
@@ -4,7 +4,30 @@ import { existsSync, unlinkSync } from "node:fs";
 import { join } from "node:path";
 import { Dialect } from "json-to-sql-parser";
 import { Client } from "pg";
-import { type DataModel, generateDatabaseDiff, generateInitialMigration, generateMigrationFromDiff } from "../src/index.js";
+import {
+	type DataModel,
+	dataModelSchema,
+	generateDatabaseDiff,
+	generateInitialMigration,
+	generateMigrationFromDiff,
+	generateNextMigration,
+	generateSQLiteAccessControl,
+	getLatestSnapshot,
+	type IntrospectionWarning,
+	introspectPostgres,
+	introspectSQLite,
+	simulateAccessControl,
+} from "../src/index.js";
+import {
+	createDatabaseSnapshotStore,
+	createPostgresDriver,
+	createSQLiteDriver,
+	type Migration,
+	MigrationError,
+	MigrationRunner,
+} from "../src/node.js";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
 
 describe("Database Integration Tests", () => {
 	let pgClient: Client | null = null;
@@ -125,7 +148,7 @@ describe("Database Integration Tests", () => {
 			`);
 
 			// Execute the generated SQL
-			const statements = migration.sql.split(";").filter((s) => s.trim());
+			const statements = migration.up.split(";").filter((s) => s.trim());
 
 			for (const statement of statements) {
 				if (statement.trim()) {
@@ -219,10 +242,10 @@ describe("Database Integration Tests", () => {
 			};
 
 			const diff = generateDatabaseDiff(sampleModel, updatedModel);
-			const migration = generateMigrationFromDiff(diff, updatedModel, Dialect.POSTGRESQL);
+			const migration = generateMigrationFromDiff(diff, { from: sampleModel, to: updatedModel }, Dialect.POSTGRESQL);
 
 			// Execute the migration
-			const statements = migration.sql.split(";").filter((s) => s.trim());
+			const statements = migration.up.split(";").filter((s) => s.trim());
 
 			for (const statement of statements) {
 				if (statement.trim()) {
@@ -238,6 +261,243 @@ describe("Database Integration Tests", () => {
 
 			expect(tablesResult.rows.length).toBe(1);
 		});
+
+		test("should introspect the migrated schema back into a data model", async () => {
+			if (!pgAvailable || !pgClient) {
+				console.warn("Skipping PostgreSQL test - database not available");
+				return;
+			}
+
+			await pgClient.query(
+				"DROP TABLE IF EXISTS comments CASCADE; DROP TABLE IF EXISTS posts CASCADE; DROP TABLE IF EXISTS users CASCADE;",
+			);
+			for (const { sql } of generateInitialMigration(sampleModel, Dialect.POSTGRESQL).statements.up) await pgClient.query(sql);
+
+			const warnings: IntrospectionWarning[] = [];
+			const introspected = await introspectPostgres(pgClient, {
+				schema: "migration_test",
+				onWarning: (warning) => warnings.push(warning),
+			});
+			expect(dataModelSchema.safeParse(introspected).success).toBe(true);
+
+			const users = introspected.tables.find((table) => table.name === "users");
+			const posts = introspected.tables.find((table) => table.name === "posts");
+			expect(users?.fields.find((field) => field.name === "id")).toEqual({
+				name: "id",
+				type: "uuid",
+				nonNullable: true,
+				primaryKey: true,
+			});
+			expect(posts?.fields.find((field) => field.name === "author_id")?.foreignKey).toEqual({
+				table: "users",
+				field: "id",
+				onDelete: "cascade",
+			});
+			expect(posts?.fields.find((field) => field.name === "view_count")?.default).toBe(0);
+			expect(users?.policies).toEqual([
+				{ name: "users_create_policy", operations: ["create"], withCheck: true },
+				{ name: "users_delete_policy", operations: ["delete"], using: false },
+			]);
+			expect(warnings.map((warning) => warning.path)).toContain("tables[1].policies");
+
+			// Only the policies depending on runtime variables cannot be read back
+			const diff = generateDatabaseDiff(introspected, sampleModel);
+			expect(diff.tables.added).toEqual([]);
+			expect(diff.tables.removed).toEqual([]);
+			expect(diff.tables.modified.flatMap((modification) => modification.fieldsModified)).toEqual([]);
+		});
+
+		test("should introspect extended field types back into the same model", async () => {
+			if (!pgAvailable || !pgClient) {
+				console.warn("Skipping PostgreSQL test - database not available");
+				return;
+			}
+
+			const products: DataModel["tables"][number] = {
+				name: "products",
+				fields: [
+					{ name: "id", type: "bigint", nonNullable: true, primaryKey: true },
+					{ name: "stock", type: "integer", nonNullable: true },
+					{ name: "sku", type: "varchar", length: 12, nonNullable: true },
+					{ name: "price", type: "decimal", precision: 10, scale: 2, nonNullable: true },
+					{ name: "weight", type: "number" },
+					{ name: "thumbnail", type: "binary" },
+					{ name: "opens_at", type: "time" },
+					{ name: "warranty", type: "interval" },
+					{ name: "ratings", type: "array", items: "integer" },
+					{ name: "tags", type: "array" },
+					{ name: "status", type: "enum", enum: "product_status", nonNullable: true },
+				],
+				accessControl: { read: true, create: true, update: true, delete: true },
+				rowLevelSecurity: false,
+			};
+			const enums = [{ name: "product_status", values: ["draft", "published"] }];
+
+			await pgClient.query('DROP TABLE IF EXISTS products CASCADE; DROP TYPE IF EXISTS "product_status";');
+			try {
+				for (const { sql } of generateInitialMigration({ tables: [products], enums }, Dialect.POSTGRESQL).statements.up)
+					await pgClient.query(sql);
+
+				const introspected = await introspectPostgres(pgClient, { schema: "migration_test" });
+				expect(introspected.tables.find((table) => table.name === "products")).toEqual(products);
+				expect(introspected.enums).toEqual(enums);
+			} finally {
+				await pgClient.query('DROP TABLE IF EXISTS products CASCADE; DROP TYPE IF EXISTS "product_status";');
+			}
+		});
+
+		test("should convert column values between numbers and booleans", async () => {
+			if (!pgAvailable || !pgClient) {
+				console.warn("Skipping PostgreSQL test - database not available");
+				return;
+			}
+
+			const table = (fields: DataModel["tables"][number]["fields"]): DataModel => ({
+				tables: [
+					{
+						name: "ratings",
+						fields: [{ name: "id", type: "integer", nonNullable: true, primaryKey: true }, ...fields],
+						accessControl: { read: true, create: true, update: true, delete: true },
+						rowLevelSecurity: false,
+					},
+				],
+			});
+			const oldModel = table([
+				{ name: "score", type: "number" },
+				{ name: "active", type: "boolean" },
+			]);
+			const newModel = table([
+				{ name: "score", type: "boolean" },
+				{ name: "active", type: "number" },
+			]);
+
+			await pgClient.query("DROP TABLE IF EXISTS ratings CASCADE;");
+			try {
+				for (const { sql } of generateInitialMigration(oldModel, Dialect.POSTGRESQL).statements.up) await pgClient.query(sql);
+				await pgClient.query("INSERT INTO ratings (id, score, active) VALUES (1, 1.0, true), (2, 0, false), (3, 2.5, NULL);");
+
+				const models = { from: oldModel, to: newModel };
+				const migration = generateMigrationFromDiff(generateDatabaseDiff(oldModel, newModel), models, Dialect.POSTGRESQL, {
+					allowDestructive: true,
+				});
+				for (const { sql } of migration.statements.up) await pgClient.query(sql);
+
+				const { rows } = await pgClient.query("SELECT score, active::float AS active FROM ratings ORDER BY id;");
+				expect(rows).toEqual([
+					{ score: true, active: 1 },
+					{ score: false, active: 0 },
+					{ score: true, active: null },
+				]);
+			} finally {
+				await pgClient.query("DROP TABLE IF EXISTS ratings CASCADE;");
+			}
+		});
+
+		test("should apply migrations in transactions with the migration runner", async () => {
+			if (!pgAvailable || !pgClient) {
+				console.warn("Skipping PostgreSQL test - database not available");
+				return;
+			}
+
+			await pgClient.query(
+				"DROP TABLE IF EXISTS comments CASCADE; DROP TABLE IF EXISTS posts CASCADE; DROP TABLE IF EXISTS users CASCADE; DROP TABLE IF EXISTS _schema_migrations; DROP TABLE IF EXISTS _schema_migration_progress;",
+			);
+
+			const runner = new MigrationRunner(createPostgresDriver(pgClient));
+			const initial: Migration = { id: "001_initial", up: generateInitialMigration(sampleModel, Dialect.POSTGRESQL).up };
+			const failing: Migration = {
+				id: "002_failing",
+				up: 'ALTER TABLE "users" ADD COLUMN "bio" TEXT;\nSELECT * FROM "missing";',
+			};
+
+			expect(await runner.migrate([initial])).toEqual(["001_initial"]);
+			await expect(runner.migrate([initial, failing])).rejects.toThrow(MigrationError);
+
+			const columns = await pgClient.query(
+				"SELECT column_name FROM information_schema.columns WHERE table_schema = 'migration_test' AND table_name = 'users' AND column_name = 'bio'",
+			);
+			expect(columns.rows).toEqual([]);
+			expect((await runner.status([initial, failing])).map((migration) => migration.state)).toEqual(["applied", "pending"]);
+		});
+	});
+
+	describe("Access Control Simulation", () => {
+		test("should agree with the PostgreSQL policies", async () => {
+			if (!pgAvailable || !pgClient) {
+				console.warn("Skipping PostgreSQL test - database not available");
+				return;
+			}
+
+			const client = pgClient;
+			await client.query(
+				"DROP TABLE IF EXISTS comments CASCADE; DROP TABLE IF EXISTS posts CASCADE; DROP TABLE IF EXISTS users CASCADE;",
+			);
+			await client.query(generateInitialMigration(sampleModel, Dialect.POSTGRESQL).up);
+			// Superusers bypass row level security, policies are checked as a regular role
+			await client.query(`
+				DO $$ BEGIN CREATE ROLE simulated_user NOLOGIN; EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+				GRANT USAGE ON SCHEMA migration_test TO simulated_user;
+				GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA migration_test TO simulated_user;
+			`);
+
+			const [alice, bob] = ["550e8400-e29b-41d4-a716-44665544000a", "550e8400-e29b-41d4-a716-44665544000b"];
+			const posts = [
+				{ id: "550e8400-e29b-41d4-a716-446655440101", title: "Draft", author_id: alice, published: false },
+				{ id: "550e8400-e29b-41d4-a716-446655440102", title: "Public", author_id: bob, published: true },
+				{ id: "550e8400-e29b-41d4-a716-446655440103", title: "Hidden", author_id: bob, published: false },
+			];
+			await client.query(
+				"INSERT INTO migration_test.users (id, email) VALUES ($1, 'alice@example.com'), ($2, 'bob@example.com')",
+				[alice, bob],
+			);
+			for (const post of posts) {
+				await client.query("INSERT INTO migration_test.posts (id, title, author_id, published) VALUES ($1, $2, $3, $4)", [
+					post.id,
+					post.title,
+					post.author_id,
+					post.published,
+				]);
+			}
+
+			const asUser = async <T>(userId: string | null, run: () => Promise<T>): Promise<T> => {
+				await client.query("SELECT set_config('app.user_id', $1, false)", [userId ?? ""]);
+				await client.query("SET ROLE simulated_user");
+				try {
+					return await run();
+				} finally {
+					await client.query("RESET ROLE");
+				}
+			};
+
+			for (const userId of [alice, bob, null]) {
+				const variables = { user_id: userId };
+				const visible = await asUser(userId, () => client.query("SELECT id FROM migration_test.posts ORDER BY id"));
+				const simulated = posts.filter(
+					(row) => simulateAccessControl(sampleModel, { table: "posts", operation: "read", row, variables }).allowed,
+				);
+				expect(visible.rows.map((row) => row.id)).toEqual(simulated.map((row) => row.id).sort());
+
+				for (const authorId of [alice, bob]) {
+					const row = { id: crypto.randomUUID(), title: "New", author_id: authorId, published: false };
+					const inserted = await asUser(userId, () =>
+						client
+							.query("INSERT INTO migration_test.posts (id, title, author_id) VALUES ($1, $2, $3)", [
+								row.id,
+								row.title,
+								row.author_id,
+							])
+							.then(
+								() => true,
+								() => false,
+							),
+					);
+					expect(inserted).toBe(
+						simulateAccessControl(sampleModel, { table: "posts", operation: "create", row, variables }).allowed,
+					);
+					if (inserted) posts.push(row);
+				}
+			}
+		});
 	});
 
 	describe("SQLite Integration", () => {
@@ -248,7 +508,7 @@ describe("Database Integration Tests", () => {
 				const migration = generateInitialMigration(sampleModel, Dialect.SQLITE_MINIMAL);
 
 				// Execute the generated SQL
-				const statements = migration.sql.split(";").filter((s) => {
+				const statements = migration.up.split(";").filter((s) => {
 					const trimmed = s.trim();
 					return trimmed && !trimmed.startsWith("--");
 				});
@@ -329,10 +589,10 @@ describe("Database Integration Tests", () => {
 				};
 
 				const diff = generateDatabaseDiff(sampleModel, updatedModel);
-				const migration = generateMigrationFromDiff(diff, updatedModel, Dialect.SQLITE_MINIMAL);
+				const migration = generateMigrationFromDiff(diff, { from: sampleModel, to: updatedModel }, Dialect.SQLITE_MINIMAL);
 
 				// Execute the migration
-				const statements = migration.sql.split(";").filter((s) => s.trim());
+				const statements = migration.up.split(";").filter((s) => s.trim());
 
 				for (const statement of statements) {
 					if (statement.trim()) {
@@ -362,6 +622,525 @@ describe("Database Integration Tests", () => {
 				db.close();
 			}
 		});
+
+		test("should rebuild SQLite tables and keep their data", () => {
+			const db = new Database(":memory:");
+
+			try {
+				const usersTable = sampleModel.tables[0];
+				if (!usersTable) throw new Error("Users table not found");
+
+				const oldModel: DataModel = { tables: [usersTable] };
+				const newModel: DataModel = {
+					tables: [
+						{
+							...usersTable,
+							fields: usersTable.fields.map((field) =>
+								field.name === "name" ? { ...field, nonNullable: true, default: "anonymous" } : field,
+							),
+						},
+					],
+				};
+
+				db.exec(generateInitialMigration(oldModel, Dialect.SQLITE_MINIMAL).up);
+				db.prepare("INSERT INTO users (id, email, name, age) VALUES (?, ?, ?, ?)").run("user-1", "a@example.com", "Alice", 30);
+
+				const diff = generateDatabaseDiff(oldModel, newModel);
+				const acknowledged = { acknowledge: ["set_not_null:users.name"] };
+				db.exec(generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL, acknowledged).up);
+
+				const user = db.prepare("SELECT name, age FROM users WHERE id = ?").get("user-1") as { name: string; age: number };
+				expect(user).toEqual({ name: "Alice", age: 30 });
+
+				const nameColumn = (db.prepare('PRAGMA table_info("users")').all() as Array<{ name: string; notnull: number }>).find(
+					(column) => column.name === "name",
+				);
+				expect(nameColumn?.notnull).toBe(1);
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should convert column values when rebuilding SQLite tables", () => {
+			const db = new Database(":memory:");
+
+			try {
+				const usersTable = sampleModel.tables[0];
+				if (!usersTable) throw new Error("Users table not found");
+
+				const oldModel: DataModel = {
+					tables: [{ ...usersTable, fields: [...usersTable.fields, { name: "verified", type: "string" }] }],
+				};
+				const newModel: DataModel = {
+					tables: [
+						{
+							...usersTable,
+							fields: [...usersTable.fields, { name: "verified", type: "boolean" as const }].map((field) =>
+								field.name === "age" ? { ...field, type: "string" as const } : field,
+							),
+						},
+					],
+				};
+
+				db.exec(generateInitialMigration(oldModel, Dialect.SQLITE_MINIMAL).up);
+				const insert = db.prepare("INSERT INTO users (id, email, age, verified) VALUES (?, ?, ?, ?)");
+				insert.run("user-1", "a@example.com", 30, "yes");
+				insert.run("user-2", "b@example.com", null, "no");
+
+				const diff = generateDatabaseDiff(oldModel, newModel);
+				db.exec(
+					generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL, { allowDestructive: true })
+						.up,
+				);
+
+				expect(db.prepare("SELECT age, verified FROM users ORDER BY id").all()).toEqual([
+					{ age: "30.0", verified: 1 },
+					{ age: null, verified: 0 },
+				]);
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should convert numbers and booleans when rebuilding SQLite tables", () => {
+			const db = new Database(":memory:");
+
+			try {
+				const usersTable = sampleModel.tables[0];
+				if (!usersTable) throw new Error("Users table not found");
+
+				const withFields = (fields: DataModel["tables"][number]["fields"]): DataModel => ({
+					tables: [{ ...usersTable, fields: [...usersTable.fields, ...fields] }],
+				});
+				const oldModel = withFields([
+					{ name: "score", type: "number" },
+					{ name: "verified", type: "boolean" },
+				]);
+				const newModel = withFields([
+					{ name: "score", type: "boolean" },
+					{ name: "verified", type: "number" },
+				]);
+
+				db.exec(generateInitialMigration(oldModel, Dialect.SQLITE_MINIMAL).up);
+				const insert = db.prepare("INSERT INTO users (id, email, score, verified) VALUES (?, ?, ?, ?)");
+				insert.run("user-1", "a@example.com", 1.0, 1);
+				insert.run("user-2", "b@example.com", 0, 0);
+
+				const diff = generateDatabaseDiff(oldModel, newModel);
+				db.exec(
+					generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL, { allowDestructive: true })
+						.up,
+				);
+
+				expect(db.prepare("SELECT score, verified, typeof(verified) AS storage FROM users ORDER BY id").all()).toEqual([
+					{ score: 1, verified: 1, storage: "real" },
+					{ score: 0, verified: 0, storage: "real" },
+				]);
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should backfill non-nullable fields when rebuilding SQLite tables", () => {
+			const db = new Database(":memory:");
+
+			try {
+				const usersTable = sampleModel.tables[0];
+				if (!usersTable) throw new Error("Users table not found");
+
+				const oldModel: DataModel = { tables: [usersTable] };
+				const newModel: DataModel = {
+					tables: [
+						{
+							...usersTable,
+							fields: [
+								...usersTable.fields.map((field) =>
+									field.name === "name" ? { ...field, nonNullable: true, migrate: { backfill: { $field: "email" } } } : field,
+								),
+								{ name: "role", type: "string" as const, nonNullable: true, migrate: { backfill: "member" } },
+							],
+						},
+					],
+				};
+
+				db.exec(generateInitialMigration(oldModel, Dialect.SQLITE_MINIMAL).up);
+				const insert = db.prepare("INSERT INTO users (id, email, name) VALUES (?, ?, ?)");
+				insert.run("user-1", "a@example.com", "Alice");
+				insert.run("user-2", "b@example.com", null);
+
+				const diff = generateDatabaseDiff(oldModel, newModel);
+				db.exec(generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL).up);
+
+				expect(db.prepare("SELECT name, role FROM users ORDER BY id").all()).toEqual([
+					{ name: "Alice", role: "member" },
+					{ name: "b@example.com", role: "member" },
+				]);
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should rename enum values and check them when rebuilding SQLite tables", () => {
+			const db = new Database(":memory:");
+
+			try {
+				const usersTable = sampleModel.tables[0];
+				if (!usersTable) throw new Error("Users table not found");
+
+				const oldModel: DataModel = {
+					tables: [{ ...usersTable, fields: [...usersTable.fields, { name: "status", type: "enum", enum: "status" }] }],
+					enums: [{ name: "status", values: ["active", "banned"] }],
+				};
+				const newModel: DataModel = {
+					...oldModel,
+					enums: [{ name: "status", values: ["enabled", "banned", "deleted"], renamedValues: { enabled: "active" } }],
+				};
+
+				db.exec(generateInitialMigration(oldModel, Dialect.SQLITE_MINIMAL).up);
+				const insert = db.prepare("INSERT INTO users (id, email, status) VALUES (?, ?, ?)");
+				insert.run("user-1", "a@example.com", "active");
+				insert.run("user-2", "b@example.com", "banned");
+
+				const diff = generateDatabaseDiff(oldModel, newModel);
+				db.exec(generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL).up);
+
+				expect(db.prepare("SELECT status FROM users ORDER BY id").all()).toEqual([{ status: "enabled" }, { status: "banned" }]);
+				expect(() => insert.run("user-3", "c@example.com", "active")).toThrow();
+				insert.run("user-3", "c@example.com", "deleted");
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should generate identities, uuids and auto-updated timestamps in SQLite", () => {
+			const db = new Database(":memory:");
+
+			try {
+				const model: DataModel = {
+					tables: [
+						{
+							name: "events",
+							fields: [
+								{ name: "id", type: "integer", primaryKey: true, autoIncrement: true },
+								{ name: "key", type: "uuid", nonNullable: true, autoGenerate: true },
+								{ name: "title", type: "string" },
+								{ name: "updated_at", type: "datetime", autoUpdate: true },
+							],
+							accessControl: { read: true, create: true, update: true, delete: true },
+						},
+					],
+				};
+
+				db.exec(generateInitialMigration(model, Dialect.SQLITE_MINIMAL).up);
+				db.exec("INSERT INTO events (title) VALUES ('first'), ('second')");
+				db.exec("UPDATE events SET title = 'renamed' WHERE id = 1");
+
+				expect(db.prepare("SELECT id, key, updated_at IS NOT NULL AS updated FROM events ORDER BY id").all()).toEqual([
+					{ id: 1, key: expect.stringMatching(UUID_PATTERN), updated: 1 },
+					{ id: 2, key: expect.stringMatching(UUID_PATTERN), updated: 0 },
+				]);
+				expect(db.prepare("SELECT COUNT(DISTINCT key) AS count FROM events").get()).toEqual({ count: 2 });
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should compute generated fields again when rebuilding SQLite tables", () => {
+			const db = new Database(":memory:");
+
+			try {
+				const usersTable = sampleModel.tables[0];
+				if (!usersTable) throw new Error("Users table not found");
+
+				const withContact = (generated: { expression: { $field: string }; stored?: boolean }): DataModel => ({
+					tables: [{ ...usersTable, fields: [...usersTable.fields, { name: "contact", type: "string", generated }] }],
+				});
+				const oldModel = withContact({ expression: { $field: "email" } });
+				const newModel = withContact({ expression: { $field: "name" }, stored: true });
+
+				db.exec(generateInitialMigration(oldModel, Dialect.SQLITE_MINIMAL).up);
+				db.prepare("INSERT INTO users (id, email, name) VALUES (?, ?, ?)").run("user-1", "a@example.com", "Alice");
+				expect(db.prepare("SELECT contact FROM users").all()).toEqual([{ contact: "a@example.com" }]);
+
+				const diff = generateDatabaseDiff(oldModel, newModel);
+				db.exec(generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL).up);
+
+				expect(db.prepare("SELECT email, contact FROM users").all()).toEqual([{ email: "a@example.com", contact: "Alice" }]);
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should emulate access control in SQLite for each connection", () => {
+			// Two connections to the same file
+			const path = join(import.meta.dir, "access-control-db.sqlite");
+			if (existsSync(path)) unlinkSync(path);
+			const db = new Database(path);
+			const other = new Database(path);
+
+			try {
+				const isOwner = { $eq: [{ $field: "owner_id" }, { $var: "user_id" }] };
+				const model: DataModel = {
+					tables: [
+						{
+							name: "notes",
+							fields: [
+								{ name: "id", type: "integer", primaryKey: true },
+								{ name: "owner_id", type: "uuid", nonNullable: true },
+								{ name: "body", type: "string" },
+							],
+							accessControl: { read: isOwner, create: isOwner, update: isOwner, delete: false },
+						},
+					],
+				};
+				const [alice, bob] = ["00000000-0000-4000-8000-00000000000a", "00000000-0000-4000-8000-00000000000b"];
+				const setUser = (connection: Database, userId: string) =>
+					connection
+						.prepare(`INSERT OR REPLACE INTO "_session_variables" ("name", "value") VALUES ('app.user_id', ?)`)
+						.run(userId);
+
+				db.exec(generateInitialMigration(model, Dialect.SQLITE_MINIMAL).up);
+				const { sql } = generateSQLiteAccessControl(model, Dialect.SQLITE_MINIMAL);
+				db.exec(sql);
+				other.exec(sql);
+				setUser(db, alice);
+				setUser(other, bob);
+
+				const insert = db.prepare("INSERT INTO notes (id, owner_id, body) VALUES (?, ?, ?)");
+				insert.run(1, alice, "mine");
+				expect(() => insert.run(2, bob, "theirs")).toThrow("Access denied: create on notes");
+				expect(() => db.exec(`UPDATE notes SET owner_id = '${bob}' WHERE id = 1`)).toThrow("Access denied: update on notes");
+				expect(() => db.exec("DELETE FROM notes WHERE id = 1")).toThrow("Access denied: delete on notes");
+
+				// Each connection is checked against its own session variables
+				expect(db.prepare("SELECT id FROM notes_secure").all()).toEqual([{ id: 1 }]);
+				expect(other.prepare("SELECT id FROM notes_secure").all()).toEqual([]);
+				other.prepare("INSERT INTO notes (id, owner_id, body) VALUES (?, ?, ?)").run(2, bob, "theirs");
+				expect(db.prepare("SELECT id FROM notes_secure").all()).toEqual([{ id: 1 }]);
+
+				// Running the access control again keeps the session variables of the connection
+				db.exec(sql);
+				expect(db.prepare("SELECT id FROM notes_secure").all()).toEqual([{ id: 1 }]);
+				expect(db.prepare("SELECT name FROM sqlite_master").all()).toEqual([{ name: "notes" }]);
+			} finally {
+				other.close();
+				db.close();
+				unlinkSync(path);
+			}
+		});
+
+		test("should enforce composite primary keys and check constraints in SQLite", () => {
+			const db = new Database(":memory:");
+
+			try {
+				const model: DataModel = {
+					tables: [
+						{
+							name: "memberships",
+							fields: [
+								{ name: "team_id", type: "string", nonNullable: true },
+								{ name: "user_id", type: "string", nonNullable: true },
+								{ name: "seats", type: "number", nonNullable: true },
+							],
+							primaryKey: ["team_id", "user_id"],
+							checks: [{ name: "memberships_positive_seats", condition: { seats: { $gt: 0 } } }],
+							accessControl: { read: true, create: true, update: true, delete: true },
+						},
+					],
+				};
+
+				db.exec(generateInitialMigration(model, Dialect.SQLITE_MINIMAL).up);
+				const insert = db.prepare("INSERT INTO memberships (team_id, user_id, seats) VALUES (?, ?, ?)");
+				insert.run("team-1", "user-1", 1);
+				insert.run("team-1", "user-2", 1);
+
+				expect(() => insert.run("team-1", "user-1", 2)).toThrow();
+				expect(() => insert.run("team-2", "user-1", 0)).toThrow();
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should introspect a SQLite database back into a data model", () => {
+			const db = new Database(":memory:");
+
+			try {
+				db.exec(generateInitialMigration(sampleModel, Dialect.SQLITE_MINIMAL).up);
+
+				const introspected = introspectSQLite(db, { typeHints: sampleModel });
+				expect(dataModelSchema.safeParse(introspected).success).toBe(true);
+				expect(introspected.tables.find((table) => table.name === "users")?.fields.find((f) => f.name === "id")).toEqual({
+					name: "id",
+					type: "uuid",
+					nonNullable: true,
+					primaryKey: true,
+				});
+
+				// Without hints, TEXT columns are read back as strings
+				const untyped = introspectSQLite(db);
+				expect(untyped.tables.find((table) => table.name === "users")?.fields.find((f) => f.name === "id")?.type).toBe("string");
+
+				// Parameters of declared types are read back, the types SQLite columns are generated with round trip
+				db.exec(
+					"CREATE TABLE products (id INTEGER PRIMARY KEY, sku VARCHAR(12), price NUMERIC(10, 2), weight REAL, thumbnail BLOB);",
+				);
+				expect(introspectSQLite(db).tables.find((table) => table.name === "products")?.fields).toEqual([
+					{ name: "id", type: "integer", nonNullable: true, primaryKey: true },
+					{ name: "sku", type: "varchar", length: 12 },
+					{ name: "price", type: "decimal", precision: 10, scale: 2 },
+					{ name: "weight", type: "number" },
+					{ name: "thumbnail", type: "binary" },
+				]);
+
+				// Generated columns are read back with their expression, and resolved types keep their parameters
+				db.exec(
+					'CREATE TABLE "orders" ("id" INTEGER PRIMARY KEY, "code" TEXT, "quantity" INTEGER, "copy" TEXT GENERATED ALWAYS AS ("code") STORED, "total" REAL GENERATED ALWAYS AS ("quantity" * 2) VIRTUAL);',
+				);
+				const warnings: string[] = [];
+				const orders = introspectSQLite(db, {
+					resolveType: ({ name }) => (name === "code" ? { type: "varchar", length: 8 } : undefined),
+					onWarning: ({ path }) => warnings.push(path),
+				}).tables.find((table) => table.name === "orders");
+				expect(orders?.fields).toEqual([
+					{ name: "id", type: "integer", nonNullable: true, primaryKey: true },
+					{ name: "code", type: "varchar", length: 8 },
+					{ name: "quantity", type: "integer" },
+					{ name: "copy", type: "string", generated: { expression: { $field: "code" }, stored: true } },
+					{ name: "total", type: "number" },
+				]);
+				expect(warnings).toContain("tables[0].fields[4].generated");
+
+				const diff = generateDatabaseDiff(introspected, sampleModel);
+				expect(diff.tables.added).toEqual([]);
+				expect(diff.tables.removed).toEqual([]);
+				expect(diff.tables.modified.flatMap((modification) => modification.fieldsModified)).toEqual([]);
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should apply migrations once and in order with the migration runner", async () => {
+			const db = new Database(":memory:");
+
+			try {
+				const usersTable = sampleModel.tables[0];
+				if (!usersTable) throw new Error("Users table not found");
+
+				const v1: DataModel = { tables: [usersTable] };
+				const initial = generateInitialMigration(v1, Dialect.SQLITE_MINIMAL);
+				const update = generateMigrationFromDiff(
+					generateDatabaseDiff(v1, sampleModel),
+					{ from: v1, to: sampleModel },
+					Dialect.SQLITE_MINIMAL,
+				);
+				const migrations: Migration[] = [
+					{ id: "001_users", up: initial.up, model: v1 },
+					{ id: "002_posts", up: update.up, model: sampleModel },
+				];
+
+				const runner = new MigrationRunner(createSQLiteDriver(db));
+				expect(await runner.migrate(migrations.slice(0, 1))).toEqual(["001_users"]);
+				expect(await runner.migrate(migrations)).toEqual(["002_posts"]);
+				expect(await runner.migrate(migrations)).toEqual([]);
+				expect((await runner.status(migrations)).map((migration) => migration.state)).toEqual(["applied", "applied"]);
+				expect((await runner.applied()).every((migration) => migration.modelHash !== null)).toBe(true);
+
+				const edited = migrations.map((m) => (m.id === "002_posts" ? { ...m, up: `${m.up}\n-- edited` } : m));
+				await expect(runner.migrate(edited)).rejects.toThrow("edited after being applied");
+				await expect(runner.migrate([{ id: "000_setup", up: "SELECT 1;" }, ...migrations])).rejects.toThrow("pending");
+				await expect(runner.migrate(migrations.slice(1))).rejects.toThrow("missing from the migrations");
+
+				// A failing migration leaves neither its changes nor its record behind
+				const failing = { id: "003_failing", up: 'CREATE TABLE "audit" ("id" TEXT);\nINSERT INTO "missing" VALUES (1);' };
+				await expect(runner.migrate([...migrations, failing])).rejects.toThrow(MigrationError);
+				expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'audit'").all()).toEqual([]);
+				expect((await runner.status([...migrations, failing])).at(-1)?.state).toBe("pending");
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should roll back table rebuilds breaking foreign keys", async () => {
+			const db = new Database(":memory:");
+
+			try {
+				const runner = new MigrationRunner(createSQLiteDriver(db));
+				const initial = generateInitialMigration(sampleModel, Dialect.SQLITE_MINIMAL);
+				await runner.migrate([{ id: "001_initial", up: initial.statements.up }]);
+				db.exec(`INSERT INTO "users" ("id", "email") VALUES ('u1', 'u1@example.com');`);
+				db.exec(`INSERT INTO "posts" ("id", "title", "author_id") VALUES ('p1', 'Post', 'u1');`);
+
+				// The backfilled editor does not exist, so the rebuilt table violates its new foreign key
+				const editedModel: DataModel = {
+					tables: sampleModel.tables.map((table) =>
+						table.name === "posts"
+							? {
+									...table,
+									fields: [
+										...table.fields,
+										{
+											name: "editor_id",
+											type: "uuid",
+											nonNullable: true,
+											foreignKey: { table: "users", field: "id" },
+											migrate: { backfill: "missing" },
+										},
+									],
+								}
+							: table,
+					),
+				};
+				const update = generateMigrationFromDiff(
+					generateDatabaseDiff(sampleModel, editedModel),
+					{ from: sampleModel, to: editedModel },
+					Dialect.SQLITE_MINIMAL,
+				);
+				const migrations: Migration[] = [
+					{ id: "001_initial", up: initial.statements.up },
+					{ id: "002_editor", up: update.statements.up },
+				];
+
+				await expect(runner.migrate(migrations)).rejects.toMatchObject({ reason: "foreign_key_violation" });
+				expect(db.prepare(`SELECT name FROM pragma_table_info('posts') WHERE name = 'editor_id'`).all()).toEqual([]);
+				expect(db.prepare("PRAGMA foreign_keys").get()).toEqual({ foreign_keys: 1 });
+				expect((await runner.status(migrations)).at(-1)?.state).toBe("pending");
+			} finally {
+				db.close();
+			}
+		});
+
+		test("should keep model snapshots in the database", async () => {
+			const db = new Database(":memory:");
+
+			try {
+				const usersTable = sampleModel.tables[0];
+				if (!usersTable) throw new Error("Users table not found");
+
+				const driver = createSQLiteDriver(db);
+				const store = createDatabaseSnapshotStore(driver);
+				const initial = await generateNextMigration(store, "001_users", { tables: [usersTable] }, Dialect.SQLITE_MINIMAL);
+				if (!initial) throw new Error("Expected a migration");
+				expect(initial.migration.up).toContain('CREATE TABLE "users"');
+
+				const next = await generateNextMigration(store, "002_posts", sampleModel, Dialect.SQLITE_MINIMAL);
+				if (!next) throw new Error("Expected a migration");
+				expect(next.snapshot.parentId).toBe("001_users");
+				expect(getLatestSnapshot(await store.list())?.hash).toBe(next.snapshot.hash);
+
+				// A migration generated on another branch from the same snapshot is rejected
+				await expect(store.save({ ...next.snapshot, id: "002_comments" }, next.migration)).rejects.toThrow("UNIQUE");
+				expect(await generateNextMigration(store, "003_posts", sampleModel, Dialect.SQLITE_MINIMAL)).toBeUndefined();
+
+				// The snapshots table is not part of the introspected model
+				await new MigrationRunner(driver).migrate([
+					{ id: "001_users", up: initial.migration.statements.up },
+					{ id: "002_posts", up: next.migration.statements.up },
+				]);
+				expect(introspectSQLite(db).tables.map((table) => table.name)).toEqual(["posts", "users"]);
+			} finally {
+				db.close();
+			}
+		});
 	});
 
 	describe("Cross-Database Compatibility", () => {
@@ -371,24 +1150,24 @@ describe("Database Integration Tests", () => {
 			const sqliteExtMigration = generateInitialMigration(sampleModel, Dialect.SQLITE_EXTENSIONS);
 
 			// PostgreSQL should have UUID types and JSONB
-			expect(pgMigration.sql).toContain("UUID");
-			expect(pgMigration.sql).toContain("JSONB");
-			expect(pgMigration.sql).toContain("TIMESTAMP WITH TIME ZONE");
-			expect(pgMigration.sql).toContain("ROW LEVEL SECURITY");
+			expect(pgMigration.up).toContain("UUID");
+			expect(pgMigration.up).toContain("JSONB");
+			expect(pgMigration.up).toContain("TIMESTAMP WITH TIME ZONE");
+			expect(pgMigration.up).toContain("ROW LEVEL SECURITY");
 
 			// SQLite minimal should use TEXT for everything
-			expect(sqliteMigration.sql).toContain("TEXT");
-			expect(sqliteMigration.sql).not.toContain("UUID");
-			expect(sqliteMigration.sql).not.toContain("JSONB");
-			expect(sqliteMigration.sql).not.toContain("ROW LEVEL SECURITY");
+			expect(sqliteMigration.up).toContain("TEXT");
+			expect(sqliteMigration.up).not.toContain("UUID");
+			expect(sqliteMigration.up).not.toContain("JSONB");
+			expect(sqliteMigration.up).not.toContain("ROW LEVEL SECURITY");
 
 			// SQLite with extensions should use JSON type
-			expect(sqliteExtMigration.sql).toContain("JSON");
-			expect(sqliteExtMigration.sql).not.toContain("JSONB");
+			expect(sqliteExtMigration.up).toContain("JSON");
+			expect(sqliteExtMigration.up).not.toContain("JSONB");
 
 			// All should be different
-			expect(pgMigration.sql).not.toBe(sqliteMigration.sql);
-			expect(sqliteMigration.sql).not.toBe(sqliteExtMigration.sql);
+			expect(pgMigration.up).not.toBe(sqliteMigration.up);
+			expect(sqliteMigration.up).not.toBe(sqliteExtMigration.up);
 		});
 
 		test("should handle RLS conditions correctly in PostgreSQL", () => {
@@ -422,14 +1201,14 @@ describe("Database Integration Tests", () => {
 			const sqliteMigration = generateInitialMigration(complexModel, Dialect.SQLITE_MINIMAL);
 
 			// PostgreSQL should have proper RLS policies with complex conditions
-			expect(pgMigration.sql).toContain("CREATE POLICY");
-			expect(pgMigration.sql).toContain("complex_table_read_policy");
-			expect(pgMigration.sql).toContain("AND");
-			expect(pgMigration.sql).toContain("OR");
+			expect(pgMigration.up).toContain("CREATE POLICY");
+			expect(pgMigration.up).toContain("complex_table_read_policy");
+			expect(pgMigration.up).toContain("AND");
+			expect(pgMigration.up).toContain("OR");
 
 			// SQLite doesn't support RLS
-			expect(sqliteMigration.sql).not.toContain("ROW LEVEL SECURITY");
-			expect(sqliteMigration.sql).not.toContain("CREATE POLICY");
+			expect(sqliteMigration.up).not.toContain("ROW LEVEL SECURITY");
+			expect(sqliteMigration.up).not.toContain("CREATE POLICY");
 		});
 	});
 
@@ -459,17 +1238,17 @@ describe("Database Integration Tests", () => {
 			const sqliteExt = generateInitialMigration(jsonModel, Dialect.SQLITE_EXTENSIONS);
 
 			// Basic SQLite should use TEXT for objects
-			expect(sqliteBasic.sql).toContain('"config" TEXT NOT NULL');
-			expect(sqliteBasic.sql).toContain('"settings" TEXT');
-			expect(sqliteBasic.sql).not.toContain("JSON");
+			expect(sqliteBasic.up).toContain('"config" TEXT NOT NULL');
+			expect(sqliteBasic.up).toContain('"settings" TEXT');
+			expect(sqliteBasic.up).not.toContain("JSON");
 
 			// SQLite with extensions should use JSON type
-			expect(sqliteExt.sql).toContain('"config" JSON NOT NULL');
-			expect(sqliteExt.sql).toContain('"settings" JSON');
+			expect(sqliteExt.up).toContain('"config" JSON NOT NULL');
+			expect(sqliteExt.up).toContain('"settings" JSON');
 
 			// Both should have the same other types
-			expect(sqliteBasic.sql).toContain('"score" REAL');
-			expect(sqliteExt.sql).toContain('"score" REAL');
+			expect(sqliteBasic.up).toContain('"score" REAL');
+			expect(sqliteExt.up).toContain('"score" REAL');
 		});
 
 		test("should demonstrate extension-only SQL features", () => {
@@ -498,7 +1277,7 @@ describe("Database Integration Tests", () => {
 			const extMigration = generateInitialMigration(extModel, Dialect.SQLITE_EXTENSIONS);
 
 			// Should generate JSON type (which requires extensions)
-			expect(extMigration.sql).toContain('"data" JSON NOT NULL');
+			expect(extMigration.up).toContain('"data" JSON NOT NULL');
 
 			// Note: In a real SQLite with extensions, you could use mathematical functions like:
 			// - sqrt(), sin(), cos(), log10(), power()
@@ -1,6 +1,34 @@
 import { describe, expect, test } from "bun:test";
-import { Dialect } from "json-to-sql-parser";
-import { type DataModel, generateDatabaseDiff, generateInitialMigration, generateMigrationFromDiff } from "../src/index.js";
+import { createHash } from "node:crypto";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type AnyExpression, Dialect } from "json-to-sql-parser";
+import { runCli } from "../src/cli.js";
+import {
+	type DataModel,
+	generateDatabaseDiff,
+	generateInitialMigration,
+	generateMigrationFromDiff,
+	generateNextMigration,
+	generateSQLiteAccessControl,
+	getLatestSnapshot,
+	hashDataModel,
+	introspectPostgres,
+	type MigrationStatement,
+	type ModelSnapshot,
+	PolicySimulationError,
+	type PostgresClient,
+	SnapshotError,
+	simulateAccessControl,
+	sortTablesByDependencies,
+	summarizeDatabaseDiff,
+	UnsafeMigrationError,
+	validateDataModel,
+} from "../src/index.js";
+import { createFileSnapshotStore, type MigrationDriver, MigrationError, MigrationRunner } from "../src/node.js";
+
+const MODULE_SPECIFIER = /^(?:import|export)\b[^;]*?from "([^"]+)";/gms;
 
 describe("Database Migration System", () => {
 	const simpleModel: DataModel = {
@@ -33,21 +61,21 @@ describe("Database Migration System", () => {
 	test("generateFullMigration should create proper SQL for PostgreSQL", () => {
 		const result = generateInitialMigration(simpleModel, Dialect.POSTGRESQL);
 
-		expect(result.sql).toContain('CREATE TABLE "users"');
-		expect(result.sql).toContain('"id" UUID PRIMARY KEY');
-		expect(result.sql).toContain('"email" TEXT NOT NULL');
-		expect(result.sql).toContain("ENABLE ROW LEVEL SECURITY");
-		expect(result.sql).toContain("CREATE POLICY");
+		expect(result.up).toContain('CREATE TABLE "users"');
+		expect(result.up).toContain('"id" UUID PRIMARY KEY');
+		expect(result.up).toContain('"email" TEXT NOT NULL');
+		expect(result.up).toContain("ENABLE ROW LEVEL SECURITY");
+		expect(result.up).toContain("CREATE POLICY");
 	});
 
 	test("generateFullMigration should create proper SQL for SQLite", () => {
 		const result = generateInitialMigration(simpleModel, Dialect.SQLITE_MINIMAL);
 
-		expect(result.sql).toContain('CREATE TABLE "users"');
-		expect(result.sql).toContain('"id" TEXT PRIMARY KEY'); // UUID maps to TEXT in SQLite
-		expect(result.sql).toContain('"email" TEXT NOT NULL');
-		expect(result.sql).not.toContain("ROW LEVEL SECURITY"); // No RLS in SQLite
-		expect(result.sql).not.toContain("CREATE POLICY"); // No policies in SQLite
+		expect(result.up).toContain('CREATE TABLE "users"');
+		expect(result.up).toContain('"id" TEXT PRIMARY KEY'); // UUID maps to TEXT in SQLite
+		expect(result.up).toContain('"email" TEXT NOT NULL');
+		expect(result.up).not.toContain("ROW LEVEL SECURITY"); // No RLS in SQLite
+		expect(result.up).not.toContain("CREATE POLICY"); // No policies in SQLite
 	});
 
 	test("generateDiff should detect table additions", () => {
@@ -193,11 +221,11 @@ describe("Database Migration System", () => {
 		};
 
 		const diff = generateDatabaseDiff(oldModel, newModel);
-		const migration = generateMigrationFromDiff(diff, newModel, Dialect.POSTGRESQL);
+		const migration = generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.POSTGRESQL);
 
-		expect(migration.sql).toContain('ALTER TABLE "users" ADD COLUMN "created_at"');
-		expect(migration.sql).toContain("TIMESTAMP WITH TIME ZONE NOT NULL");
-		expect(migration.sql).toContain("DEFAULT");
+		expect(migration.up).toContain('ALTER TABLE "users" ADD COLUMN "created_at"');
+		expect(migration.up).toContain("TIMESTAMP WITH TIME ZONE NOT NULL");
+		expect(migration.up).toContain("DEFAULT");
 	});
 
 	test("should handle field type mapping correctly", () => {
@@ -223,22 +251,22 @@ describe("Database Migration System", () => {
 		const sqliteResult = generateInitialMigration(modelWithVariousTypes, Dialect.SQLITE_MINIMAL);
 
 		// PostgreSQL type mapping
-		expect(postgresResult.sql).toContain('"id" UUID');
-		expect(postgresResult.sql).toContain('"text_field" TEXT');
-		expect(postgresResult.sql).toContain('"num_field" NUMERIC');
-		expect(postgresResult.sql).toContain('"bool_field" BOOLEAN');
-		expect(postgresResult.sql).toContain('"json_field" JSONB');
-		expect(postgresResult.sql).toContain('"date_field" DATE');
-		expect(postgresResult.sql).toContain('"datetime_field" TIMESTAMP WITH TIME ZONE');
+		expect(postgresResult.up).toContain('"id" UUID');
+		expect(postgresResult.up).toContain('"text_field" TEXT');
+		expect(postgresResult.up).toContain('"num_field" NUMERIC');
+		expect(postgresResult.up).toContain('"bool_field" BOOLEAN');
+		expect(postgresResult.up).toContain('"json_field" JSONB');
+		expect(postgresResult.up).toContain('"date_field" DATE');
+		expect(postgresResult.up).toContain('"datetime_field" TIMESTAMP WITH TIME ZONE');
 
 		// SQLite type mapping
-		expect(sqliteResult.sql).toContain('"id" TEXT');
-		expect(sqliteResult.sql).toContain('"text_field" TEXT');
-		expect(sqliteResult.sql).toContain('"num_field" REAL');
-		expect(sqliteResult.sql).toContain('"bool_field" INTEGER');
-		expect(sqliteResult.sql).toContain('"json_field" TEXT');
-		expect(sqliteResult.sql).toContain('"date_field" TEXT');
-		expect(sqliteResult.sql).toContain('"datetime_field" TEXT');
+		expect(sqliteResult.up).toContain('"id" TEXT');
+		expect(sqliteResult.up).toContain('"text_field" TEXT');
+		expect(sqliteResult.up).toContain('"num_field" REAL');
+		expect(sqliteResult.up).toContain('"bool_field" INTEGER');
+		expect(sqliteResult.up).toContain('"json_field" TEXT');
+		expect(sqliteResult.up).toContain('"date_field" TEXT');
+		expect(sqliteResult.up).toContain('"datetime_field" TEXT');
 	});
 
 	test("should handle sqlite-extensions dialect correctly", () => {
@@ -265,13 +293,1800 @@ describe("Database Migration System", () => {
 		const sqliteExt = generateInitialMigration(model, Dialect.SQLITE_EXTENSIONS);
 
 		// Basic SQLite should use TEXT for objects
-		expect(sqliteBasic.sql).toContain('"config" TEXT NOT NULL');
-		expect(sqliteBasic.sql).toContain('"settings" TEXT');
-		expect(sqliteBasic.sql).not.toContain("JSON");
+		expect(sqliteBasic.up).toContain('"config" TEXT NOT NULL');
+		expect(sqliteBasic.up).toContain('"settings" TEXT');
+		expect(sqliteBasic.up).not.toContain("JSON");
 
 		// SQLite with extensions should use JSON type
-		expect(sqliteExt.sql).toContain('"config" JSON NOT NULL');
-		expect(sqliteExt.sql).toContain('"settings" JSON');
-		expect(sqliteExt.sql).not.toContain('"config" TEXT');
+		expect(sqliteExt.up).toContain('"config" JSON NOT NULL');
+		expect(sqliteExt.up).toContain('"settings" JSON');
+		expect(sqliteExt.up).not.toContain('"config" TEXT');
+	});
+
+	test("should bind access control variables to runtime sources", () => {
+		const ownedModel: DataModel = {
+			tables: [
+				{
+					name: "notes",
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "owner_id", type: "uuid", nonNullable: true },
+						{ name: "team", type: "string", nonNullable: true },
+					],
+					accessControl: {
+						read: { $or: [{ owner_id: { $eq: { $var: "user_id" } } }, { team: { $eq: { $var: "team" } } }] },
+						create: { owner_id: { $eq: { $var: "user_id" } } },
+						update: { owner_id: { $eq: { $var: "user_id" } } },
+						delete: false,
+					},
+				},
+			],
+		};
+
+		const defaultResult = generateInitialMigration(ownedModel, Dialect.POSTGRESQL, {
+			variables: { user_id: { type: "uuid", setting: "app.user_id" }, team: { type: "string", setting: "app.team" } },
+		});
+
+		expect(defaultResult.up).toContain("NULLIF(current_setting('app.user_id', true), '')::UUID");
+		expect(defaultResult.up).toContain("NULLIF(current_setting('app.team', true), '')");
+		expect(defaultResult.up).not.toContain("00000000-0000-4000-8000-");
+		expect(defaultResult.up).not.toContain("__runtime_variable_");
+
+		const supabaseResult = generateInitialMigration(ownedModel, Dialect.POSTGRESQL, {
+			variables: { user_id: { type: "uuid", sql: "auth.uid()" }, team: { value: "core" } },
+		});
+
+		expect(supabaseResult.up).toContain("(auth.uid())");
+		expect(supabaseResult.up).toContain("'core'");
+	});
+
+	test("generateMigrationFromDiff should create a matching rollback migration", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const oldModel: DataModel = {
+			tables: [
+				{ ...usersTable, fields: [...usersTable.fields, { name: "age", type: "string", nonNullable: false }] },
+				{
+					name: "sessions",
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{
+							name: "user_id",
+							type: "uuid",
+							foreignKey: { table: "users", field: "id", onDelete: "set_null" },
+						},
+					],
+					accessControl: { read: false, create: true, update: false, delete: true },
+				},
+			],
+		};
+		const newModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					fields: [...usersTable.fields, { name: "age", type: "number", nonNullable: true }, { name: "bio", type: "string" }],
+					accessControl: { ...usersTable.accessControl, delete: false },
+				},
+			],
+		};
+
+		const diff = generateDatabaseDiff(oldModel, newModel);
+		const migration = generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.POSTGRESQL, {
+			allowDestructive: true,
+		});
+
+		expect(migration.up).toContain('DROP TABLE IF EXISTS "sessions";');
+		expect(migration.up).toContain('ALTER TABLE "users" ADD COLUMN "bio" TEXT;');
+		expect(migration.up).toContain('ALTER TABLE "users" ALTER COLUMN "age" TYPE NUMERIC USING "age"::NUMERIC;');
+
+		expect(migration.down).toContain('CREATE TABLE "sessions"');
+		expect(migration.down).toContain(
+			'ALTER TABLE "sessions" ADD CONSTRAINT "fk_sessions_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE SET NULL;',
+		);
+		expect(migration.down).toContain('CREATE POLICY "sessions_read_policy"');
+		expect(migration.down).toContain('ALTER TABLE "users" DROP COLUMN "bio";');
+		expect(migration.down).toContain('ALTER TABLE "users" ALTER COLUMN "age" TYPE TEXT USING "age"::TEXT;');
+		expect(migration.down).toContain('ALTER TABLE "users" ALTER COLUMN "age" DROP NOT NULL;');
+		expect(migration.down).toContain('CREATE POLICY "users_delete_policy" ON "users" FOR DELETE USING (');
+	});
+
+	test("generateMigrationFromDiff should only replace the policies of changed operations", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const restrictedModel: DataModel = {
+			tables: [{ ...usersTable, accessControl: { ...usersTable.accessControl, read: false } }],
+		};
+		const restricted = generateMigrationFromDiff(
+			generateDatabaseDiff(simpleModel, restrictedModel),
+			{ from: simpleModel, to: restrictedModel },
+			Dialect.POSTGRESQL,
+		);
+
+		expect(restricted.statements.up.map((s) => s.kind)).toEqual(["drop_policy", "policy"]);
+		expect(restricted.up).toContain('DROP POLICY IF EXISTS "users_read_policy" ON "users";');
+		expect(restricted.up).toContain('CREATE POLICY "users_read_policy" ON "users" FOR SELECT USING (');
+
+		const unrestrictedModel: DataModel = { tables: [{ ...usersTable, rowLevelSecurity: false }] };
+		const diff = generateDatabaseDiff(simpleModel, unrestrictedModel);
+		const unrestricted = generateMigrationFromDiff(diff, { from: simpleModel, to: unrestrictedModel }, Dialect.POSTGRESQL);
+
+		expect(diff.accessControl.tables[0]?.rowLevelSecurity).toEqual({ from: true, to: false });
+		expect(unrestricted.statements.up.map((s) => s.kind)).toEqual([
+			"disable_rls",
+			"drop_policy",
+			"drop_policy",
+			"drop_policy",
+			"drop_policy",
+		]);
+		expect(unrestricted.statements.down.filter((s) => s.kind !== "drop_policy").map((s) => s.kind)).toEqual([
+			"enable_rls",
+			"policy",
+			"policy",
+			"policy",
+			"policy",
+		]);
+
+		const removed = generateDatabaseDiff(simpleModel, { tables: [] });
+		expect(removed.accessControl).toEqual({ tables: [], removed: ["users"] });
+		expect(generateInitialMigration(unrestrictedModel, Dialect.POSTGRESQL).up).not.toContain("POLICY");
+	});
+
+	test("generateMigrationFromDiff should create named policies with roles and separate checks", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const { accessControl: _, ...unprotectedTable } = usersTable;
+		const policyModel: DataModel = {
+			tables: [
+				{
+					...unprotectedTable,
+					forceRowLevelSecurity: true,
+					policies: [
+						{ name: "users_owner", operations: ["read", "create", "update", "delete"], roles: ["authenticated"], using: true },
+						{ name: "users_edit", operations: ["update"], using: true, withCheck: false },
+						{ name: "users_guard", operations: ["read", "delete"], restrictive: true, roles: ["public"], using: true },
+					],
+				},
+			],
+		};
+
+		expect(validateDataModel(policyModel, Dialect.POSTGRESQL)).toEqual([]);
+
+		const initial = generateInitialMigration(policyModel, Dialect.POSTGRESQL);
+		expect(initial.up).toContain('ALTER TABLE "users" FORCE ROW LEVEL SECURITY;');
+		expect(initial.up).toContain('CREATE POLICY "users_owner" ON "users" FOR ALL TO "authenticated" USING (');
+		expect(initial.up).toContain('CREATE POLICY "users_edit" ON "users" FOR UPDATE USING (');
+		expect(initial.up).toContain(") WITH CHECK (");
+		expect(initial.up).toContain('CREATE POLICY "users_guard_read" ON "users" AS RESTRICTIVE FOR SELECT TO PUBLIC USING (');
+		expect(initial.up).toContain('CREATE POLICY "users_guard_delete" ON "users" AS RESTRICTIVE FOR DELETE TO PUBLIC USING (');
+
+		const shorthandModel: DataModel = { tables: [{ ...usersTable, policies: policyModel.tables[0]?.policies?.slice(1) }] };
+		const diff = generateDatabaseDiff(policyModel, shorthandModel);
+		expect(diff.accessControl.tables[0]?.policiesRemoved.map((policy) => policy.name)).toEqual(["users_owner"]);
+		expect(diff.accessControl.tables[0]?.forceRowLevelSecurity).toEqual({ from: true, to: false });
+
+		const migration = generateMigrationFromDiff(diff, { from: policyModel, to: shorthandModel }, Dialect.POSTGRESQL);
+		expect(migration.up).toContain('ALTER TABLE "users" NO FORCE ROW LEVEL SECURITY;');
+		expect(migration.up).toContain('DROP POLICY IF EXISTS "users_owner" ON "users";');
+		expect(migration.up).toContain('CREATE POLICY "users_read_policy" ON "users" FOR SELECT USING (');
+		expect(migration.up).not.toContain('DROP POLICY IF EXISTS "users_edit"');
+
+		expect(validateDataModel({ tables: [unprotectedTable] }, Dialect.POSTGRESQL).map((issue) => issue.path)).toEqual([
+			"tables[0].accessControl",
+		]);
+		// An empty list of policies does not state which operations are denied, tables without row level security need none
+		const withoutPolicies = { ...unprotectedTable, policies: [] };
+		expect(validateDataModel({ tables: [withoutPolicies] }, Dialect.POSTGRESQL).map((issue) => issue.path)).toEqual([
+			"tables[0].accessControl",
+		]);
+		expect(validateDataModel({ tables: [{ ...unprotectedTable, rowLevelSecurity: false }] }, Dialect.POSTGRESQL)).toEqual([]);
+		const invalidModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					policies: [
+						{ name: "users_read_policy", operations: ["read"], using: true, withCheck: true },
+						{ name: "users_insert", operations: ["create"] },
+					],
+				},
+			],
+		};
+		expect(validateDataModel(invalidModel, Dialect.POSTGRESQL).map((issue) => issue.path)).toEqual([
+			"tables[0].policies[0].name",
+			"tables[0].policies[0].withCheck",
+			"tables[0].policies[1].withCheck",
+		]);
+	});
+
+	test("generateSQLiteAccessControl should emulate access control with connection-scoped objects", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const ownedModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					accessControl: { ...usersTable.accessControl, read: { $eq: [{ $field: "id" }, { $var: "user_id" }] } },
+				},
+			],
+		};
+
+		const accessControl = generateSQLiteAccessControl(ownedModel, Dialect.SQLITE_MINIMAL);
+		expect(accessControl.statements.map((s) => s.kind)).toEqual([
+			"create_table",
+			"drop_view",
+			"drop_trigger",
+			"drop_trigger",
+			"drop_trigger",
+			"create_view",
+			"create_trigger",
+			"create_trigger",
+			"create_trigger",
+		]);
+		expect(accessControl.sql).toContain(
+			'CREATE TEMP TABLE IF NOT EXISTS "_session_variables" ("name" TEXT PRIMARY KEY, "value");',
+		);
+		expect(accessControl.sql).toContain('DROP VIEW IF EXISTS "temp"."users_secure";');
+		expect(accessControl.sql).toContain('CREATE TEMP VIEW "users_secure" AS SELECT * FROM "main"."users" WHERE ');
+		expect(accessControl.sql).toContain(`(SELECT "value" FROM "temp"."_session_variables" WHERE "name" = 'app.user_id')`);
+		expect(accessControl.sql).toContain(
+			'CREATE TEMP TRIGGER "users_update_access" BEFORE UPDATE ON "main"."users" FOR EACH ROW WHEN NOT (EXISTS (',
+		);
+		expect(accessControl.sql).toContain(`SELECT RAISE(ABORT, 'Access denied: delete on users');`);
+
+		// Migrations leave access control out of the database file, which every connection shares
+		expect(generateInitialMigration(ownedModel, Dialect.SQLITE_MINIMAL).up).not.toContain("users_secure");
+		expect(
+			generateSQLiteAccessControl({ tables: [{ ...usersTable, rowLevelSecurity: false }] }, Dialect.SQLITE_MINIMAL).sql,
+		).not.toContain("users_secure");
+	});
+
+	test("simulateAccessControl should evaluate policies and explain their failures", () => {
+		const isAuthor = { author_id: { $eq: { $var: "user_id" } } };
+		const model: DataModel = {
+			tables: [
+				{
+					name: "users",
+					fields: [
+						{ name: "id", type: "uuid", primaryKey: true },
+						{ name: "banned", type: "boolean" },
+					],
+					accessControl: { read: true, create: true, update: true, delete: true },
+				},
+				{
+					name: "posts",
+					fields: [
+						{ name: "id", type: "uuid", primaryKey: true },
+						{ name: "published", type: "boolean" },
+						{ name: "author_id", type: "uuid", foreignKey: { table: "users", field: "id" } },
+					],
+					policies: [
+						{ name: "posts_visible", operations: ["read"], using: { $or: [{ published: { $eq: true } }, isAuthor] } },
+						{ name: "posts_owned", operations: ["create", "update", "delete"], using: isAuthor },
+						{ name: "posts_not_banned", operations: ["create"], restrictive: true, using: { "author_id.banned": { $ne: true } } },
+						{ name: "posts_admin", operations: ["delete"], roles: ["admin"], using: true },
+					],
+				},
+			],
+		};
+		const variables = { user_id: "user-1" };
+		const simulate = (input: Omit<Parameters<typeof simulateAccessControl>[1], "table">) =>
+			simulateAccessControl(model, { table: "posts", variables, ...input });
+
+		expect(simulate({ operation: "read", row: { published: true, author_id: "user-2" } }).allowed).toBe(true);
+		expect(simulate({ operation: "read", row: { published: false, author_id: "user-1" } }).allowed).toBe(true);
+
+		const hidden = simulate({ operation: "read", row: { published: false, author_id: "user-2" } });
+		expect(hidden.allowed).toBe(false);
+		expect(hidden.failures).toEqual([
+			{ policy: "posts_visible", clause: "using", path: "using", condition: { $or: [{ published: { $eq: true } }, isAuthor] } },
+		]);
+
+		// Unset variables are NULL, which no comparison matches
+		const anonymous = simulateAccessControl(model, { table: "posts", operation: "update", row: { author_id: "user-1" } });
+		expect(anonymous.allowed).toBe(false);
+		expect(anonymous.failures.map((failure) => failure.path)).toEqual(["using.author_id.$eq", "withCheck.author_id.$eq"]);
+
+		const moved = simulate({ operation: "update", row: { author_id: "user-1" }, updatedRow: { author_id: "user-2" } });
+		expect(moved.failures.map(({ clause, path }) => [clause, path])).toEqual([["withCheck", "withCheck.author_id.$eq"]]);
+
+		const relatedRows = { users: [{ id: "user-1", banned: true }] };
+		const banned = simulate({ operation: "create", row: { author_id: "user-1" }, relatedRows });
+		expect(banned.allowed).toBe(false);
+		expect(banned.message).toBe(
+			'Policy "posts_not_banned" denies create on "posts": withCheck.author_id.banned.$ne is not satisfied',
+		);
+		const allowedRows = { users: [{ id: "user-1", banned: false }] };
+		expect(simulate({ operation: "create", row: { author_id: "user-1" }, relatedRows: allowedRows }).allowed).toBe(true);
+
+		expect(simulate({ operation: "delete", row: { author_id: "user-2" } }).allowed).toBe(false);
+		expect(simulate({ operation: "delete", row: { author_id: "user-2" }, role: "admin" }).allowed).toBe(true);
+
+		expect(() => simulateAccessControl(model, { table: "comments", operation: "read", row: {} })).toThrow(PolicySimulationError);
+	});
+
+	test("generateDiff should turn renamedFrom hints into renames", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const newModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					name: "accounts",
+					renamedFrom: "users",
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "email_address", renamedFrom: "email", type: "string", nonNullable: true },
+					],
+				},
+			],
+		};
+
+		const diff = generateDatabaseDiff(simpleModel, newModel);
+
+		expect(diff.tables.added).toHaveLength(0);
+		expect(diff.tables.removed).toHaveLength(0);
+		expect(diff.tables.renamed.map(({ from, to }) => [from.name, to.name])).toEqual([["users", "accounts"]]);
+		expect(diff.tables.modified[0]?.fieldsAdded).toHaveLength(0);
+		expect(diff.tables.modified[0]?.fieldsRemoved).toHaveLength(0);
+		expect(diff.tables.modified[0]?.fieldsRenamed[0]?.from.name).toBe("email");
+		expect(diff.tables.modified[0]?.fieldsRenamed[0]?.detected).toBe(false);
+
+		const postgres = generateMigrationFromDiff(diff, { from: simpleModel, to: newModel }, Dialect.POSTGRESQL);
+
+		expect(postgres.up).toContain('ALTER TABLE "users" RENAME TO "accounts";');
+		expect(postgres.up).toContain('ALTER POLICY "users_read_policy" ON "accounts" RENAME TO "accounts_read_policy";');
+		expect(postgres.up).toContain('ALTER TABLE "accounts" RENAME COLUMN "email" TO "email_address";');
+		expect(postgres.up).not.toContain("DROP COLUMN");
+		expect(postgres.down).toContain('ALTER TABLE "accounts" RENAME TO "users";');
+		expect(postgres.down).toContain('ALTER TABLE "users" RENAME COLUMN "email_address" TO "email";');
+
+		const sqlite = generateMigrationFromDiff(diff, { from: simpleModel, to: newModel }, Dialect.SQLITE_MINIMAL);
+
+		expect(sqlite.up).toContain('ALTER TABLE "users" RENAME TO "accounts";');
+		expect(sqlite.up).toContain('ALTER TABLE "accounts" RENAME COLUMN "email" TO "email_address";');
+		expect(sqlite.up).not.toContain("ALTER POLICY");
+	});
+
+	test("generateDiff should rename the constraints of renamed fields", () => {
+		const withTeam = (field: DataModel["tables"][number]["fields"][number]): DataModel => ({
+			tables: [
+				{ name: "teams", fields: [{ name: "id", type: "uuid", primaryKey: true }], accessControl: { read: true } },
+				{
+					name: "members",
+					fields: [{ name: "id", type: "uuid", primaryKey: true }, field],
+					accessControl: { read: true },
+				},
+			],
+		});
+		const oldModel = withTeam({
+			name: "team",
+			type: "uuid",
+			unique: true,
+			values: ["a"],
+			foreignKey: { table: "teams", field: "id" },
+		});
+		const newModel = withTeam({
+			name: "team_id",
+			renamedFrom: "team",
+			type: "uuid",
+			unique: true,
+			values: ["a"],
+			foreignKey: { table: "teams", field: "id" },
+		});
+
+		const postgres = generateMigrationFromDiff(
+			generateDatabaseDiff(oldModel, newModel),
+			{ from: oldModel, to: newModel },
+			Dialect.POSTGRESQL,
+		);
+
+		expect(postgres.up).toContain('ALTER TABLE "members" RENAME CONSTRAINT "fk_members_team" TO "fk_members_team_id";');
+		expect(postgres.up).toContain('ALTER TABLE "members" RENAME CONSTRAINT "uq_members_team" TO "uq_members_team_id";');
+		expect(postgres.up).toContain('ALTER TABLE "members" RENAME CONSTRAINT "ck_members_team" TO "ck_members_team_id";');
+	});
+
+	test("generateDiff should rename the indexes of renamed tables", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const indexes = [
+			{ columns: ["email"], unique: true },
+			{ name: "users_by_id", columns: ["id", "email"] },
+		];
+		const oldModel: DataModel = { tables: [{ ...usersTable, indexes }] };
+		const newModel: DataModel = { tables: [{ ...usersTable, name: "accounts", renamedFrom: "users", indexes }] };
+
+		const diff = generateDatabaseDiff(oldModel, newModel);
+		expect(diff.tables.modified).toHaveLength(0);
+		expect(diff.unsafeChanges).toEqual([]);
+
+		const postgres = generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.POSTGRESQL);
+		expect(postgres.statements.up.filter(({ kind }) => kind.endsWith("_index")).map(({ sql }) => sql)).toEqual([
+			'ALTER INDEX "idx_users_email" RENAME TO "idx_accounts_email";',
+		]);
+		expect(postgres.down).toContain('ALTER INDEX "idx_accounts_email" RENAME TO "idx_users_email";');
+
+		const sqlite = generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL);
+		expect(sqlite.statements.up.filter(({ kind }) => kind.endsWith("_index")).map(({ sql }) => sql)).toEqual([
+			'DROP INDEX IF EXISTS "idx_users_email";',
+			'CREATE UNIQUE INDEX "idx_accounts_email" ON "accounts" ("email");',
+		]);
+	});
+
+	test("generateDiff should keep the named indexes of renamed fields", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const oldModel: DataModel = {
+			tables: [{ ...usersTable, indexes: [{ name: "users_by_email", columns: ["id", "email"] }, { columns: ["email"] }] }],
+		};
+		const newModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					fields: usersTable.fields.map((field) =>
+						field.name === "email" ? { ...field, name: "email_address", renamedFrom: "email" } : field,
+					),
+					indexes: [{ name: "users_by_email", columns: ["id", "email_address"] }, { columns: ["email_address"] }],
+				},
+			],
+		};
+
+		const [modification] = generateDatabaseDiff(oldModel, newModel).tables.modified;
+		expect(modification?.indexesAdded).toEqual([{ columns: ["email_address"] }]);
+		expect(modification?.indexesRemoved).toEqual([{ columns: ["email"] }]);
+	});
+
+	test("generateDiff should only detect unambiguous renames when asked to", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const newModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "mail", type: "string", nonNullable: true },
+					],
+				},
+			],
+		};
+
+		expect(generateDatabaseDiff(simpleModel, newModel).tables.modified[0]?.fieldsRenamed).toHaveLength(0);
+
+		const diff = generateDatabaseDiff(simpleModel, newModel, { detectRenames: true });
+		expect(diff.tables.modified[0]?.fieldsRenamed.map(({ from, to, detected }) => [from.name, to.name, detected])).toEqual([
+			["email", "mail", true],
+		]);
+
+		const ambiguousModel: DataModel = {
+			tables: [
+				{ ...usersTable, fields: [...(newModel.tables[0]?.fields ?? []), { name: "mail_2", type: "string", nonNullable: true }] },
+			],
+		};
+		expect(
+			generateDatabaseDiff(simpleModel, ambiguousModel, { detectRenames: true }).tables.modified[0]?.fieldsRenamed,
+		).toHaveLength(0);
+	});
+
+	test("generateMigrationFromDiff should rebuild SQLite tables for unsupported column changes", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const oldModel: DataModel = {
+			tables: [{ ...usersTable, fields: [...usersTable.fields, { name: "age", type: "string" }] }],
+		};
+		const newModel: DataModel = {
+			tables: [{ ...usersTable, fields: [...usersTable.fields, { name: "age", type: "number", nonNullable: true, default: 0 }] }],
+		};
+
+		const diff = generateDatabaseDiff(oldModel, newModel);
+		const migration = generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL, {
+			allowDestructive: true,
+		});
+
+		expect(migration.up).toContain("PRAGMA foreign_keys=OFF;");
+		expect(migration.up).toContain('CREATE TABLE "new_users"');
+		expect(migration.up).toContain('"age" REAL NOT NULL DEFAULT 0');
+		expect(migration.up).toContain(
+			'INSERT INTO "new_users" ("id", "email", "age") SELECT "id", "email", CAST("age" AS REAL) FROM "users";',
+		);
+		expect(migration.up).toContain('DROP TABLE "users";');
+		expect(migration.up).toContain('ALTER TABLE "new_users" RENAME TO "users";');
+		expect(migration.up).toContain('PRAGMA foreign_key_check("users");');
+		expect(migration.up).not.toContain("_new");
+
+		expect(migration.down).toContain(
+			'INSERT INTO "new_users" ("id", "email", "age") SELECT "id", "email", CAST("age" AS TEXT) FROM "users";',
+		);
+	});
+
+	test("should order table creation and drops by foreign key dependencies", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const postsTable: DataModel["tables"][number] = {
+			name: "posts",
+			fields: [
+				{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+				{ name: "author_id", type: "uuid", foreignKey: { table: "users", field: "id" } },
+			],
+			accessControl: { read: true, create: true, update: true, delete: true },
+		};
+		const childFirstModel: DataModel = { tables: [postsTable, usersTable] };
+
+		const migration = generateInitialMigration(childFirstModel, Dialect.SQLITE_MINIMAL);
+		expect(migration.up.indexOf('CREATE TABLE "users"')).toBeLessThan(migration.up.indexOf('CREATE TABLE "posts"'));
+		expect(migration.down.indexOf('DROP TABLE IF EXISTS "posts"')).toBeLessThan(
+			migration.down.indexOf('DROP TABLE IF EXISTS "users"'),
+		);
+
+		const diff = generateDatabaseDiff({ tables: [] }, childFirstModel);
+		const diffMigration = generateMigrationFromDiff(diff, { from: { tables: [] }, to: childFirstModel }, Dialect.SQLITE_MINIMAL);
+		expect(diffMigration.up.indexOf('CREATE TABLE "users"')).toBeLessThan(diffMigration.up.indexOf('CREATE TABLE "posts"'));
+		expect(diffMigration.down.indexOf('DROP TABLE IF EXISTS "posts"')).toBeLessThan(
+			diffMigration.down.indexOf('DROP TABLE IF EXISTS "users"'),
+		);
+	});
+
+	test("should detect foreign key cycles and drop their constraints first on PostgreSQL", () => {
+		const cyclicModel: DataModel = {
+			tables: [
+				{
+					name: "teams",
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "owner_id", type: "uuid", foreignKey: { table: "members", field: "id" } },
+					],
+					accessControl: { read: true, create: true, update: true, delete: true },
+				},
+				{
+					name: "members",
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "team_id", type: "uuid", foreignKey: { table: "teams", field: "id" } },
+					],
+					accessControl: { read: true, create: true, update: true, delete: true },
+				},
+			],
+		};
+
+		const { tables, cycles } = sortTablesByDependencies(cyclicModel.tables);
+		expect(tables.map((table) => table.name)).toEqual(["teams", "members"]);
+		expect(cycles.map((cycle) => [...cycle].sort())).toEqual([["members", "teams"]]);
+
+		const migration = generateInitialMigration(cyclicModel, Dialect.POSTGRESQL);
+		expect(migration.up).toContain('ALTER TABLE "teams" ADD CONSTRAINT "fk_teams_owner_id"');
+		expect(migration.up).toContain('ALTER TABLE "members" ADD CONSTRAINT "fk_members_team_id"');
+		expect(migration.down.indexOf('DROP CONSTRAINT IF EXISTS "fk_teams_owner_id"')).toBeLessThan(
+			migration.down.indexOf("DROP TABLE"),
+		);
+	});
+
+	test("validateDataModel should report semantic errors with their paths", () => {
+		const invalidModel: DataModel = {
+			tables: [
+				{
+					name: "users",
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "email", type: "string" },
+						{ name: "email", type: "string" },
+					],
+					accessControl: { read: { missing: { $eq: "value" } }, create: true, update: true, delete: true },
+				},
+				{
+					name: "posts",
+					fields: [
+						{
+							name: "author_id",
+							type: "string",
+							nonNullable: true,
+							foreignKey: { table: "users", field: "id", onDelete: "set_null" },
+						},
+						{ name: "editor_id", type: "uuid", foreignKey: { table: "editors", field: "id" } },
+						{ name: "reviewer_id", type: "string", foreignKey: { table: "users", field: "email" } },
+					],
+					accessControl: { read: true, create: true, update: true, delete: true },
+				},
+				{ name: "users", fields: [], accessControl: { read: true, create: true, update: true, delete: true } },
+			],
+		};
+
+		const issues = validateDataModel(invalidModel, Dialect.POSTGRESQL);
+		const errorPaths = issues.filter((issue) => issue.severity === "error").map((issue) => issue.path);
+		const warningPaths = issues.filter((issue) => issue.severity === "warning").map((issue) => issue.path);
+
+		expect(errorPaths).toContain("tables[0].fields[2].name");
+		expect(errorPaths).toContain("tables[0].accessControl.read");
+		expect(errorPaths).toContain("tables[1].fields[0].foreignKey.onDelete");
+		expect(errorPaths).toContain("tables[1].fields[0].foreignKey");
+		expect(errorPaths).toContain("tables[1].fields[1].foreignKey.table");
+		expect(errorPaths).toContain("tables[1].fields[2].foreignKey.field");
+		expect(errorPaths).toContain("tables[2].name");
+		expect(warningPaths).toEqual(["tables[1]", "tables[2]"]);
+
+		expect(validateDataModel(simpleModel, Dialect.POSTGRESQL)).toEqual([]);
+		expect(() => generateInitialMigration(invalidModel, Dialect.SQLITE_MINIMAL)).toThrow("tables[1].fields[1].foreignKey.table");
+	});
+
+	test("should create unique fields and table indexes", () => {
+		const indexedModel: DataModel = {
+			tables: [
+				{
+					name: "users",
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "email", type: "string", nonNullable: true, unique: true },
+						{ name: "name", type: "string" },
+						{ name: "active", type: "boolean" },
+					],
+					indexes: [
+						{ columns: ["name"] },
+						{ name: "users_active_email", columns: ["email"], unique: true, where: { active: { $eq: true } }, method: "btree" },
+					],
+					accessControl: { read: true, create: true, update: true, delete: true },
+				},
+			],
+		};
+
+		const migration = generateInitialMigration(indexedModel, Dialect.POSTGRESQL, { concurrentIndexes: true });
+		expect(migration.up).toContain('"email" TEXT NOT NULL CONSTRAINT "uq_users_email" UNIQUE');
+		expect(migration.up).toContain('CREATE INDEX CONCURRENTLY "idx_users_name" ON "users" ("name");');
+		expect(migration.up).toContain(
+			'CREATE UNIQUE INDEX CONCURRENTLY "users_active_email" ON "users" USING BTREE ("email") WHERE',
+		);
+
+		const sqliteMigration = generateInitialMigration(indexedModel, Dialect.SQLITE_MINIMAL, { concurrentIndexes: true });
+		expect(sqliteMigration.up).toContain('"email" TEXT NOT NULL UNIQUE');
+		expect(sqliteMigration.up).toContain('CREATE INDEX "idx_users_name" ON "users" ("name");');
+
+		const [users] = indexedModel.tables;
+		if (!users) throw new Error("Missing users table");
+		const updatedModel: DataModel = {
+			tables: [
+				{
+					...users,
+					fields: users.fields.map((field) => (field.name === "email" ? { ...field, unique: false } : field)),
+					indexes: [{ columns: ["name", "active"] }],
+				},
+			],
+		};
+
+		const diff = generateDatabaseDiff(indexedModel, updatedModel);
+		const [modification] = diff.tables.modified;
+		expect(modification?.indexesAdded).toEqual([{ columns: ["name", "active"] }]);
+		expect(modification?.indexesRemoved.map((index) => index.columns)).toEqual([["name"], ["email"]]);
+
+		const update = generateMigrationFromDiff(diff, { from: indexedModel, to: updatedModel }, Dialect.POSTGRESQL);
+		expect(update.up).toContain('DROP INDEX IF EXISTS "idx_users_name";');
+		expect(update.up).toContain('DROP INDEX IF EXISTS "users_active_email";');
+		expect(update.up).toContain('ALTER TABLE "users" DROP CONSTRAINT IF EXISTS "uq_users_email";');
+		expect(update.up).toContain('CREATE INDEX "idx_users_name_active" ON "users" ("name", "active");');
+		expect(update.down).toContain('ALTER TABLE "users" ADD CONSTRAINT "uq_users_email" UNIQUE ("email");');
+
+		const issues = validateDataModel(
+			{ tables: [{ ...users, indexes: [{ columns: ["missing"] }, { columns: ["missing"] }] }] },
+			Dialect.SQLITE_MINIMAL,
+		);
+		expect(issues.map((issue) => issue.path)).toEqual([
+			"tables[0].indexes[0].columns",
+			"tables[0].indexes[1]",
+			"tables[0].indexes[1].columns",
+		]);
+	});
+
+	test("should create composite primary keys, composite foreign keys and check constraints", () => {
+		const membershipModel: DataModel = {
+			tables: [
+				{
+					name: "teams",
+					fields: [
+						{ name: "org_id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "team_id", type: "uuid", nonNullable: true, primaryKey: true },
+					],
+					accessControl: { read: true, create: true, update: true, delete: true },
+				},
+				{
+					name: "members",
+					fields: [
+						{ name: "org_id", type: "uuid", nonNullable: true },
+						{ name: "team_id", type: "uuid", nonNullable: true },
+						{ name: "user_id", type: "uuid", nonNullable: true },
+						{ name: "seats", type: "number", nonNullable: true },
+					],
+					primaryKey: ["org_id", "team_id", "user_id"],
+					foreignKeys: [
+						{
+							columns: ["org_id", "team_id"],
+							references: { table: "teams", columns: ["org_id", "team_id"] },
+							onDelete: "cascade",
+						},
+					],
+					checks: [{ name: "members_positive_seats", condition: { seats: { $gt: 0 } } }],
+					accessControl: { read: true, create: true, update: true, delete: true },
+				},
+			],
+		};
+
+		const migration = generateInitialMigration(membershipModel, Dialect.POSTGRESQL);
+		expect(migration.up).not.toContain("UUID PRIMARY KEY");
+		expect(migration.up).toContain('PRIMARY KEY ("org_id", "team_id")');
+		expect(migration.up).toContain('PRIMARY KEY ("org_id", "team_id", "user_id")');
+		expect(migration.up).toContain('CONSTRAINT "members_positive_seats" CHECK (');
+		expect(migration.up).toContain(
+			'ALTER TABLE "members" ADD CONSTRAINT "fk_members_org_id_team_id" FOREIGN KEY ("org_id", "team_id") REFERENCES "teams" ("org_id", "team_id") ON DELETE CASCADE;',
+		);
+
+		const sqliteMigration = generateInitialMigration(membershipModel, Dialect.SQLITE_MINIMAL);
+		expect(sqliteMigration.up).toContain('FOREIGN KEY ("org_id", "team_id") REFERENCES "teams" ("org_id", "team_id")');
+
+		const [teams, members] = membershipModel.tables;
+		if (!teams || !members) throw new Error("Missing tables");
+		const updatedModel: DataModel = {
+			tables: [teams, { ...members, primaryKey: ["org_id", "user_id"], checks: [] }],
+		};
+
+		const diff = generateDatabaseDiff(membershipModel, updatedModel);
+		expect(diff.tables.modified[0]?.constraintsRemoved.map((constraint) => constraint.name)).toEqual([
+			"members_pkey",
+			"members_positive_seats",
+		]);
+
+		const acknowledged = { acknowledge: ["add_constraint:members.members_pkey"] };
+		const update = generateMigrationFromDiff(diff, { from: membershipModel, to: updatedModel }, Dialect.POSTGRESQL, acknowledged);
+		expect(update.up).toContain('ALTER TABLE "members" DROP CONSTRAINT IF EXISTS "members_positive_seats";');
+		expect(update.up).toContain('ALTER TABLE "members" ADD CONSTRAINT "members_pkey" PRIMARY KEY ("org_id", "user_id");');
+		expect(update.down).toContain('ALTER TABLE "members" ADD CONSTRAINT "members_positive_seats" CHECK (');
+
+		const sqliteUpdate = generateMigrationFromDiff(
+			diff,
+			{ from: membershipModel, to: updatedModel },
+			Dialect.SQLITE_MINIMAL,
+			acknowledged,
+		);
+		expect(sqliteUpdate.up).toContain('CREATE TABLE "new_members"');
+
+		const issues = validateDataModel(
+			{
+				tables: [
+					teams,
+					{
+						...members,
+						foreignKeys: [{ columns: ["team_id"], references: { table: "teams", columns: ["team_id"] } }],
+						checks: [{ name: "fk_members_team_id", condition: true }],
+					},
+				],
+			},
+			Dialect.POSTGRESQL,
+		);
+		expect(issues.map((issue) => issue.path)).toEqual([
+			"tables[1].foreignKeys[0]",
+			"tables[1].foreignKeys[0].references.columns",
+			"tables[1].checks[0].name",
+		]);
+	});
+
+	test("migrations should expose their statements with their kind and flags", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const newModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					fields: [
+						{ name: "id", type: "uuid", nonNullable: true, primaryKey: true },
+						{ name: "bio", type: "string" },
+					],
+					indexes: [{ columns: ["bio"] }],
+				},
+			],
+		};
+
+		const diff = generateDatabaseDiff(simpleModel, newModel);
+		const postgres = generateMigrationFromDiff(diff, { from: simpleModel, to: newModel }, Dialect.POSTGRESQL, {
+			concurrentIndexes: true,
+			allowDestructive: true,
+		});
+
+		expect(postgres.statements.up.map(({ kind, column }) => ({ kind, column }))).toEqual([
+			{ kind: "add_column", column: "bio" },
+			{ kind: "drop_column", column: "email" },
+			{ kind: "create_index", column: undefined },
+		]);
+		expect(postgres.statements.up.find((s) => s.kind === "drop_column")?.destructive).toBe(true);
+		expect(postgres.statements.up.find((s) => s.kind === "create_index")?.transactional).toBe(false);
+		expect(postgres.up).toBe(postgres.statements.up.map((s) => s.sql).join("\n\n"));
+		expect(postgres.statements.down.every((s) => s.table === "users")).toBe(true);
+
+		const retypedModel: DataModel = {
+			tables: newModel.tables.map((table) => ({
+				...table,
+				fields: table.fields.map((field) => (field.name === "bio" ? { ...field, type: "number" as const } : field)),
+			})),
+		};
+		const sqlite = generateMigrationFromDiff(
+			generateDatabaseDiff(newModel, retypedModel),
+			{ from: newModel, to: retypedModel },
+			Dialect.SQLITE_MINIMAL,
+			{ allowDestructive: true },
+		);
+		const pragmas = sqlite.statements.up.filter((s) => s.kind === "pragma");
+		expect(pragmas.map((s) => s.transactional)).toEqual([false, false]);
+		expect(sqlite.statements.up.filter((s) => s.kind === "check_foreign_keys")).toHaveLength(1);
+		expect(sqlite.statements.up.find((s) => s.kind === "drop_table")?.destructive).toBe(true);
+
+		const initial = generateInitialMigration(simpleModel, Dialect.POSTGRESQL);
+		expect(initial.statements.up.map((s) => s.kind)).toEqual([
+			"create_table",
+			"enable_rls",
+			"drop_policy",
+			"drop_policy",
+			"drop_policy",
+			"drop_policy",
+			"policy",
+			"policy",
+			"policy",
+			"policy",
+		]);
+		expect(initial.statements.down).toEqual([
+			{ sql: 'DROP TABLE IF EXISTS "users";', kind: "drop_table", table: "users", destructive: true, transactional: true },
+		]);
+	});
+
+	test("generateMigrationFromDiff should refuse unsafe changes unless they are acknowledged", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const oldModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					fields: [
+						...usersTable.fields,
+						{ name: "age", type: "string" },
+						{ name: "nickname", type: "string" },
+						{ name: "born_on", type: "date" },
+					],
+				},
+				{ ...usersTable, name: "sessions", fields: [{ name: "id", type: "uuid", nonNullable: true, primaryKey: true }] },
+			],
+		};
+		const newModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					fields: [
+						...usersTable.fields,
+						{ name: "age", type: "number" },
+						{ name: "nickname", type: "string", nonNullable: true, unique: true },
+						{ name: "born_on", type: "datetime" },
+						{ name: "role", type: "string", nonNullable: true },
+					],
+				},
+			],
+		};
+
+		const diff = generateDatabaseDiff(oldModel, newModel);
+		expect(diff.unsafeChanges.map(({ id, safety }) => [id, safety])).toEqual([
+			["drop_table:sessions", "data_loss"],
+			["set_not_null:users.role", "may_fail"],
+			["alter_type:users.age", "may_fail"],
+			["set_not_null:users.nickname", "may_fail"],
+			["add_unique:users.nickname", "may_fail"],
+		]);
+
+		const models = { from: oldModel, to: newModel };
+		expect(() => generateMigrationFromDiff(diff, models, Dialect.POSTGRESQL)).toThrow(UnsafeMigrationError);
+
+		const partial = diff.unsafeChanges.slice(1).map((change) => change.id);
+		try {
+			generateMigrationFromDiff(diff, models, Dialect.POSTGRESQL, { acknowledge: partial });
+			throw new Error("Expected an UnsafeMigrationError");
+		} catch (error) {
+			if (!(error instanceof UnsafeMigrationError)) throw error;
+			expect(error.changes.map((change) => change.id)).toEqual(["drop_table:sessions"]);
+		}
+
+		const acknowledged = diff.unsafeChanges.map((change) => change.id);
+		expect(generateMigrationFromDiff(diff, models, Dialect.POSTGRESQL, { acknowledge: acknowledged }).up).toContain(
+			'DROP TABLE IF EXISTS "sessions";',
+		);
+		expect(generateMigrationFromDiff(diff, models, Dialect.POSTGRESQL, { allowDestructive: true }).up).toContain(
+			'ALTER TABLE "users" ALTER COLUMN "age" TYPE NUMERIC USING "age"::NUMERIC;',
+		);
+	});
+
+	test("should convert changed field types with USING casts or custom expressions", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const withFields = (fields: DataModel["tables"][number]["fields"]): DataModel => ({
+			tables: [{ ...usersTable, fields: [...usersTable.fields, ...fields] }],
+		});
+		const oldModel = withFields([
+			{ name: "external_id", type: "string" },
+			{ name: "active", type: "boolean" },
+			{ name: "settings", type: "object" },
+			{ name: "seen_at", type: "datetime" },
+			{ name: "score", type: "number" },
+			{ name: "legacy_code", type: "string" },
+			{ name: "code", type: "number" },
+			{ name: "tags", type: "object" },
+			{ name: "opens_at", type: "time" },
+			{ name: "ttl", type: "interval" },
+		]);
+		const newModel = withFields([
+			{ name: "external_id", type: "uuid" },
+			{ name: "active", type: "number" },
+			{ name: "settings", type: "string" },
+			{ name: "seen_at", type: "date" },
+			{ name: "score", type: "boolean" },
+			{ name: "legacy_code", type: "string" },
+			{ name: "code", type: "uuid", migrate: { using: { $field: "legacy_code" } } },
+			{ name: "tags", type: "array", items: "integer" },
+			{ name: "opens_at", type: "datetime" },
+			{ name: "ttl", type: "integer" },
+		]);
+
+		const diff = generateDatabaseDiff(oldModel, newModel);
+		const models = { from: oldModel, to: newModel };
+		const postgres = generateMigrationFromDiff(diff, models, Dialect.POSTGRESQL, { allowDestructive: true });
+
+		expect(postgres.up).toContain('ALTER COLUMN "external_id" TYPE UUID USING "external_id"::UUID;');
+		expect(postgres.up).toContain('ALTER COLUMN "active" TYPE NUMERIC USING "active"::INTEGER::NUMERIC;');
+		expect(postgres.up).toContain(`ALTER COLUMN "settings" TYPE TEXT USING "settings" #>> '{}';`);
+		expect(postgres.up).toContain('ALTER COLUMN "seen_at" TYPE DATE USING "seen_at"::DATE;');
+		expect(postgres.up).toContain('ALTER COLUMN "score" TYPE BOOLEAN USING "score" <> 0;');
+		const codeConversion = postgres.statements.up.find((statement) => statement.column === "code")?.sql;
+		expect(codeConversion).toStartWith('ALTER TABLE "users" ALTER COLUMN "code" TYPE UUID USING (');
+		expect(codeConversion).toContain('"legacy_code"');
+		expect(postgres.down).toContain('ALTER COLUMN "external_id" TYPE TEXT USING "external_id"::TEXT;');
+		expect(postgres.down).toContain('ALTER COLUMN "settings" TYPE JSONB USING "settings"::JSONB;');
+
+		// Pairs without a cast between them are converted explicitly
+		expect(postgres.up).toContain(
+			`ALTER COLUMN "tags" TYPE INTEGER[] USING ARRAY(SELECT jsonb_array_elements_text("tags"))::INTEGER[];`,
+		);
+		expect(postgres.up).toContain(
+			`ALTER COLUMN "opens_at" TYPE TIMESTAMP WITH TIME ZONE USING ('1970-01-01'::DATE + "opens_at")::TIMESTAMP WITH TIME ZONE;`,
+		);
+		expect(postgres.up).toContain('ALTER COLUMN "ttl" TYPE INTEGER USING EXTRACT(EPOCH FROM "ttl")::INTEGER;');
+		expect(postgres.down).toContain('ALTER COLUMN "tags" TYPE JSONB USING to_jsonb("tags");');
+		expect(postgres.down).toContain('ALTER COLUMN "opens_at" TYPE TIME USING "opens_at"::TIME;');
+		expect(postgres.down).toContain(`ALTER COLUMN "ttl" TYPE INTERVAL USING "ttl" * INTERVAL '1 second';`);
+
+		const sqlite = generateMigrationFromDiff(diff, models, Dialect.SQLITE_MINIMAL, { allowDestructive: true });
+		expect(sqlite.up).toContain('"external_id", CAST("active" AS REAL), "settings", date("seen_at"), "score" <> 0');
+		expect(sqlite.down).toContain('"external_id", "active" <> 0, "settings", datetime("seen_at"), CAST("score" AS REAL)');
+	});
+
+	test("should backfill added and tightened non-nullable fields", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const oldModel: DataModel = {
+			tables: [{ ...usersTable, fields: [...usersTable.fields, { name: "nickname", type: "string" }] }],
+		};
+		const newModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					fields: [
+						...usersTable.fields,
+						{ name: "nickname", type: "string", nonNullable: true, migrate: { backfill: { $field: "email" } } },
+						{ name: "role", type: "string", nonNullable: true, migrate: { backfill: "member" } },
+					],
+				},
+			],
+		};
+
+		const diff = generateDatabaseDiff(oldModel, newModel);
+		expect(diff.unsafeChanges).toEqual([]);
+
+		const postgres = generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.POSTGRESQL);
+		expect(postgres.statements.up.map((statement) => [statement.kind, statement.column])).toEqual([
+			["add_column", "role"],
+			["backfill", "role"],
+			["alter_nullability", "role"],
+			["backfill", "nickname"],
+			["alter_nullability", "nickname"],
+		]);
+		expect(postgres.up).toContain('ALTER TABLE "users" ADD COLUMN "role" TEXT;');
+		expect(postgres.up).toContain(`UPDATE "users" SET "role" = 'member' WHERE "role" IS NULL;`);
+		expect(postgres.up).toContain('ALTER TABLE "users" ALTER COLUMN "role" SET NOT NULL;');
+		expect(postgres.statements.up[3]?.sql).toStartWith('UPDATE "users" SET "nickname" = ');
+		expect(postgres.statements.up[3]?.sql).toContain('"email"');
+
+		const sqlite = generateMigrationFromDiff(diff, { from: oldModel, to: newModel }, Dialect.SQLITE_MINIMAL);
+		expect(sqlite.up).toContain(
+			'INSERT INTO "new_users" ("id", "email", "nickname", "role") SELECT "id", "email", COALESCE("nickname", ',
+		);
+		expect(sqlite.up).toContain(`'member' FROM "users";`);
+	});
+
+	test("should map extended field types to columns and parser types", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const typedModel: DataModel = {
+			tables: [
+				{
+					...usersTable,
+					fields: [
+						...usersTable.fields,
+						{ name: "logins", type: "integer", nonNullable: true, default: 0 },
+						{ name: "balance", type: "decimal", precision: 10, scale: 2 },
+						{ name: "views", type: "bigint" },
+						{ name: "handle", type: "varchar", length: 32 },
+						{ name: "status", type: "enum", values: ["active", "banned"] },
+						{ name: "tags", type: "array", items: "string" },
+						{ name: "avatar", type: "binary" },
+						{ name: "opens_at", type: "time" },
+						{ name: "ttl", type: "interval" },
+					],
+					accessControl: { ...usersTable.accessControl, read: { logins: { $gt: 0 } } },
+				},
+			],
+		};
+
+		const postgres = generateInitialMigration(typedModel, Dialect.POSTGRESQL);
+		expect(postgres.up).toContain('"logins" INTEGER NOT NULL DEFAULT 0');
+		expect(postgres.up).toContain('"balance" NUMERIC(10, 2)');
+		expect(postgres.up).toContain('"views" BIGINT');
+		expect(postgres.up).toContain('"handle" VARCHAR(32)');
+		expect(postgres.up).toContain(`"status" TEXT CONSTRAINT "ck_users_status" CHECK ("status" IN ('active', 'banned'))`);
+		expect(postgres.up).toContain('"tags" TEXT[]');
+		expect(postgres.up).toContain('"avatar" BYTEA');
+		expect(postgres.up).toContain('"opens_at" TIME');
+		expect(postgres.up).toContain('"ttl" INTERVAL');
+
+		const sqlite = generateInitialMigration(typedModel, Dialect.SQLITE_MINIMAL);
+		expect(sqlite.up).toContain('"balance" NUMERIC');
+		expect(sqlite.up).toContain('"handle" TEXT');
+		expect(sqlite.up).toContain(`"status" TEXT CHECK ("status" IN ('active', 'banned'))`);
+		expect(sqlite.up).toContain('"avatar" BLOB');
+
+		const updatedModel: DataModel = {
+			tables: typedModel.tables.map((table) => ({
+				...table,
+				fields: table.fields.map((field) => {
+					if (field.name === "logins") return { ...field, type: "bigint" as const };
+					if (field.name === "handle") return { ...field, length: 16 };
+					if (field.name === "status") return { ...field, values: ["active", "banned", "deleted"] };
+					return field;
+				}),
+			})),
+		};
+
+		const diff = generateDatabaseDiff(typedModel, updatedModel);
+		expect(diff.unsafeChanges.map((change) => change.message)).toEqual([
+			'Converting field "handle" from varchar(32) to varchar(16) may fail or lose data',
+		]);
+
+		const update = generateMigrationFromDiff(diff, { from: typedModel, to: updatedModel }, Dialect.POSTGRESQL, {
+			allowDestructive: true,
+		});
+		expect(update.up).toContain('ALTER TABLE "users" ALTER COLUMN "logins" TYPE BIGINT USING "logins"::BIGINT;');
+		expect(update.up).toContain('ALTER TABLE "users" ALTER COLUMN "handle" TYPE VARCHAR(16) USING "handle"::VARCHAR(16);');
+		// Only the conversions that may fail or lose data are destructive
+		const conversions = update.statements.up.filter((statement) => statement.kind === "alter_type");
+		expect(conversions.map(({ column, destructive }) => ({ column, destructive }))).toEqual([
+			{ column: "logins", destructive: false },
+			{ column: "handle", destructive: true },
+		]);
+		expect(update.up).not.toContain('ALTER COLUMN "status" TYPE');
+		expect(update.up).toContain('ALTER TABLE "users" DROP CONSTRAINT IF EXISTS "ck_users_status";');
+		expect(update.up).toContain(
+			`ALTER TABLE "users" ADD CONSTRAINT "ck_users_status" CHECK ("status" IN ('active', 'banned', 'deleted'));`,
+		);
+
+		const issues = validateDataModel(
+			{
+				tables: [
+					{
+						...usersTable,
+						fields: [
+							...usersTable.fields,
+							{ name: "code", type: "string", length: 3 },
+							{ name: "price", type: "decimal", scale: 2 },
+							{ name: "kind", type: "enum" },
+							{ name: "matrix", type: "array", items: "array" },
+						],
+					},
+				],
+			},
+			Dialect.POSTGRESQL,
+		);
+		expect(issues.map((issue) => issue.path)).toEqual([
+			"tables[0].fields[2].length",
+			"tables[0].fields[3].scale",
+			"tables[0].fields[4].values",
+			"tables[0].fields[5].items",
+		]);
+	});
+
+	test("should create native enums and migrate their values", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const enumModel: DataModel = {
+			tables: [
+				{ ...usersTable, fields: [...usersTable.fields, { name: "status", type: "enum", enum: "status", default: "banned" }] },
+			],
+			enums: [{ name: "status", values: ["active", "banned"] }],
+		};
+
+		const initial = generateInitialMigration(enumModel, Dialect.POSTGRESQL);
+		expect(initial.statements.up[0]?.sql).toBe(`CREATE TYPE "status" AS ENUM ('active', 'banned');`);
+		expect(initial.up).toContain(`"status" "status" DEFAULT 'banned'`);
+		expect(initial.statements.down.at(-1)?.sql).toBe('DROP TYPE IF EXISTS "status";');
+		expect(generateInitialMigration(enumModel, Dialect.SQLITE_MINIMAL).up).toContain(
+			`"status" TEXT DEFAULT 'banned' CHECK ("status" IN ('active', 'banned'))`,
+		);
+
+		const extendedModel: DataModel = {
+			...enumModel,
+			enums: [{ name: "status", values: ["pending", "enabled", "banned", "deleted"], renamedValues: { enabled: "active" } }],
+		};
+		const extended = generateMigrationFromDiff(
+			generateDatabaseDiff(enumModel, extendedModel),
+			{ from: enumModel, to: extendedModel },
+			Dialect.POSTGRESQL,
+		);
+		expect(extended.statements.up.map((statement) => statement.sql)).toEqual([
+			`ALTER TYPE "status" RENAME VALUE 'active' TO 'enabled';`,
+			`ALTER TYPE "status" ADD VALUE IF NOT EXISTS 'pending' BEFORE 'enabled';`,
+			`ALTER TYPE "status" ADD VALUE IF NOT EXISTS 'deleted' AFTER 'banned';`,
+		]);
+		expect(extended.statements.up.map((statement) => statement.transactional)).toEqual([true, true, true]);
+
+		// Values used by the migration are committed before it uses them
+		const pendingModel: DataModel = {
+			...extendedModel,
+			tables: [
+				{ ...usersTable, fields: [...usersTable.fields, { name: "status", type: "enum", enum: "status", default: "pending" }] },
+			],
+		};
+		const defaulted = generateMigrationFromDiff(
+			generateDatabaseDiff(enumModel, pendingModel),
+			{ from: enumModel, to: pendingModel },
+			Dialect.POSTGRESQL,
+		);
+		expect(defaulted.statements.up.at(-1)?.sql).toBe(`ALTER TABLE "users" ALTER COLUMN "status" SET DEFAULT 'pending';`);
+		expect(defaulted.statements.up.map((statement) => statement.transactional)).toEqual([true, false, true, true]);
+
+		// Removing values recreates the enum, which is rolled back the same way
+		expect(extended.down).toContain(`ALTER TYPE "status" RENAME VALUE 'enabled' TO 'active';`);
+		expect(extended.statements.down.map((statement) => statement.sql).slice(1)).toEqual([
+			'ALTER TYPE "status" RENAME TO "status_old";',
+			`CREATE TYPE "status" AS ENUM ('active', 'banned');`,
+			'ALTER TABLE "users" ALTER COLUMN "status" DROP DEFAULT;',
+			'ALTER TABLE "users" ALTER COLUMN "status" TYPE "status" USING "status"::TEXT::"status";',
+			`ALTER TABLE "users" ALTER COLUMN "status" SET DEFAULT 'banned';`,
+			'DROP TYPE IF EXISTS "status_old";',
+		]);
+
+		const rollbackDiff = generateDatabaseDiff(extendedModel, enumModel);
+		expect(rollbackDiff.enums.modified[0]?.valuesRemoved).toEqual(["pending", "enabled", "deleted"]);
+		expect(rollbackDiff.unsafeChanges.map((change) => change.id)).toEqual(["remove_enum_value:users.status"]);
+
+		const sqlite = generateMigrationFromDiff(
+			generateDatabaseDiff(enumModel, extendedModel),
+			{ from: enumModel, to: extendedModel },
+			Dialect.SQLITE_MINIMAL,
+		);
+		expect(sqlite.up).toContain(`CHECK ("status" IN ('pending', 'enabled', 'banned', 'deleted'))`);
+		expect(sqlite.up).toContain(
+			`SELECT "id", "email", CASE "status" WHEN 'active' THEN 'enabled' ELSE "status" END FROM "users";`,
+		);
+
+		const issues = validateDataModel(
+			{
+				tables: [
+					{
+						...usersTable,
+						fields: [
+							...usersTable.fields,
+							{ name: "role", type: "enum", enum: "role" },
+							{ name: "kind", type: "enum", values: ["a"], enum: "status" },
+						],
+					},
+				],
+				enums: [
+					{ name: "status", values: ["a", "a"] },
+					{ name: "status", values: ["b"], renamedValues: { c: "b" } },
+				],
+			},
+			Dialect.POSTGRESQL,
+		);
+		expect(issues.map((issue) => issue.path)).toEqual([
+			"enums[0].values",
+			"enums[1].name",
+			"enums[1].renamedValues",
+			"tables[0].fields[2].enum",
+			"tables[0].fields[3].values",
+		]);
+	});
+
+	test("should generate identities, uuids and auto-updated timestamps", () => {
+		const generatedModel: DataModel = {
+			tables: [
+				{
+					name: "events",
+					fields: [
+						{ name: "id", type: "integer", primaryKey: true, autoIncrement: true },
+						{ name: "key", type: "uuid", nonNullable: true, autoGenerate: true },
+						{ name: "updated_at", type: "datetime", autoUpdate: true },
+					],
+					accessControl: { read: true, create: true, update: true, delete: true },
+				},
+			],
+		};
+
+		const postgres = generateInitialMigration(generatedModel, Dialect.POSTGRESQL);
+		expect(postgres.up).toContain('"id" INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY');
+		expect(postgres.up).toContain('"key" UUID NOT NULL DEFAULT gen_random_uuid()');
+		expect(postgres.up).toContain('NEW."updated_at" = NOW();');
+		expect(postgres.up).toContain(
+			'CREATE TRIGGER "events_updated_at_auto_update" BEFORE UPDATE ON "events" FOR EACH ROW EXECUTE FUNCTION "events_updated_at_auto_update"();',
+		);
+		expect(postgres.down).toContain('DROP FUNCTION IF EXISTS "events_updated_at_auto_update"();');
+
+		const sqlite = generateInitialMigration(generatedModel, Dialect.SQLITE_MINIMAL);
+		expect(sqlite.up).toContain('"id" INTEGER PRIMARY KEY AUTOINCREMENT');
+		expect(sqlite.up).toContain('"key" TEXT NOT NULL DEFAULT (lower(hex(randomblob(4)))');
+		expect(sqlite.up).toContain('CREATE TRIGGER "events_updated_at_auto_update" AFTER UPDATE ON "events"');
+
+		const eventsTable = generatedModel.tables[0];
+		if (!eventsTable) throw new Error("Events table not found");
+
+		const updatedModel: DataModel = {
+			tables: [
+				{
+					...eventsTable,
+					fields: [
+						{ name: "id", type: "integer", primaryKey: true },
+						{ name: "key", type: "uuid", nonNullable: true },
+						{ name: "updated_at", type: "datetime" },
+					],
+				},
+			],
+		};
+		const diff = generateDatabaseDiff(generatedModel, updatedModel);
+		expect(diff.tables.modified[0]?.fieldsModified.map(({ changes }) => Object.keys(changes))).toEqual([
+			["autoIncrement"],
+			["autoGenerate"],
+			["autoUpdate"],
+		]);
+
+		const update = generateMigrationFromDiff(diff, { from: generatedModel, to: updatedModel }, Dialect.POSTGRESQL);
+		expect(update.statements.up.map((statement) => statement.sql)).toEqual([
+			'ALTER TABLE "events" ALTER COLUMN "id" DROP IDENTITY IF EXISTS;',
+			'ALTER TABLE "events" ALTER COLUMN "key" DROP DEFAULT;',
+			'DROP TRIGGER IF EXISTS "events_updated_at_auto_update" ON "events";',
+			'DROP FUNCTION IF EXISTS "events_updated_at_auto_update"();',
+		]);
+		expect(update.down).toContain('ALTER TABLE "events" ALTER COLUMN "id" ADD GENERATED BY DEFAULT AS IDENTITY;');
+		expect(update.down).toContain(
+			`SELECT setval(pg_get_serial_sequence('"events"', 'id'), COALESCE(MAX("id"), 0) + 1, false) FROM "events";`,
+		);
+		expect(update.down).toContain('ALTER TABLE "events" ALTER COLUMN "key" SET DEFAULT gen_random_uuid();');
+
+		const issues = validateDataModel(
+			{
+				tables: [
+					{
+						...eventsTable,
+						fields: [
+							{ name: "id", type: "uuid", nonNullable: true, autoIncrement: true },
+							{ name: "slug", type: "string", autoGenerate: true, default: "x" },
+						],
+					},
+				],
+			},
+			Dialect.SQLITE_MINIMAL,
+		);
+		expect(issues.map((issue) => issue.path)).toEqual([
+			"tables[0]",
+			"tables[0].fields[0].autoIncrement",
+			"tables[0].fields[0].autoIncrement",
+			"tables[0].fields[1].autoGenerate",
+			"tables[0].fields[1].default",
+		]);
+	});
+
+	test("should create generated fields and add them again when their expression changes", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const withContact = (contact: DataModel["tables"][number]["fields"][number]): DataModel => ({
+			tables: [{ ...usersTable, fields: [...usersTable.fields, { name: "name", type: "string" }, contact] }],
+		});
+		const generatedModel = withContact({ name: "contact", type: "string", generated: { expression: { $field: "email" } } });
+		const storedModel = withContact({
+			name: "contact",
+			type: "string",
+			generated: { expression: { $field: "name" }, stored: true },
+		});
+		const plainModel = withContact({ name: "contact", type: "string" });
+
+		const postgres = generateInitialMigration(generatedModel, Dialect.POSTGRESQL);
+		expect(postgres.up).toContain('"contact" TEXT GENERATED ALWAYS AS (');
+		expect(postgres.up).toContain(") STORED");
+		expect(generateInitialMigration(generatedModel, Dialect.SQLITE_MINIMAL).up).toContain(") VIRTUAL");
+
+		const diff = generateDatabaseDiff(generatedModel, storedModel);
+		expect(diff.unsafeChanges).toEqual([]);
+		const update = generateMigrationFromDiff(diff, { from: generatedModel, to: storedModel }, Dialect.POSTGRESQL);
+		expect(update.statements.up.map(({ kind, destructive }) => ({ kind, destructive }))).toEqual([
+			{ kind: "drop_column", destructive: false },
+			{ kind: "add_column", destructive: false },
+		]);
+		expect(update.statements.up[1]?.sql).toStartWith('ALTER TABLE "users" ADD COLUMN "contact" TEXT GENERATED ALWAYS AS (');
+
+		const plain = generateMigrationFromDiff(
+			generateDatabaseDiff(generatedModel, plainModel),
+			{ from: generatedModel, to: plainModel },
+			Dialect.POSTGRESQL,
+		);
+		expect(plain.up).toBe('ALTER TABLE "users" ALTER COLUMN "contact" DROP EXPRESSION;');
+		expect(generateDatabaseDiff(plainModel, generatedModel).unsafeChanges.map((change) => change.id)).toEqual([
+			"generate_column:users.contact",
+		]);
+	});
+
+	test("should create the indexes and constraints of generated fields added again", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const withContact = (expression: AnyExpression): DataModel => ({
+			tables: [
+				{
+					...usersTable,
+					fields: [...usersTable.fields, { name: "contact", type: "string", unique: true, generated: { expression } }],
+					checks: [{ name: "contact_not_empty", condition: { contact: { $ne: "" } } }],
+					indexes: [{ columns: ["contact"] }, { columns: ["email"] }, { columns: ["id"], where: { contact: { $ne: "admin" } } }],
+				},
+			],
+		});
+		const oldModel = withContact({ $field: "email" });
+		const newModel = withContact({ $func: { LOWER: [{ $field: "email" }] } });
+
+		const update = generateMigrationFromDiff(
+			generateDatabaseDiff(oldModel, newModel),
+			{ from: oldModel, to: newModel },
+			Dialect.POSTGRESQL,
+		);
+
+		expect(update.statements.up.map(({ kind }) => kind)).toEqual([
+			"drop_column",
+			"add_column",
+			"add_constraint",
+			"create_index",
+			"create_index",
+		]);
+		expect(update.statements.up[1]?.sql).toContain('CONSTRAINT "uq_users_contact" UNIQUE');
+		expect(update.up).toContain('ADD CONSTRAINT "contact_not_empty" CHECK (');
+		expect(update.up).toContain('CREATE INDEX "idx_users_contact" ON "users" ("contact");');
+		expect(update.up).toContain('CREATE INDEX "idx_users_id" ON "users" ("id") WHERE ');
+		expect(update.up).not.toContain("idx_users_email");
+	});
+
+	test("MigrationRunner should only run transactional statements in transactions", async () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const run = async (dialect: Dialect, newModel: DataModel) => {
+			const executed: string[] = [];
+			const driver: MigrationDriver = {
+				dialect,
+				execute: (sql) => {
+					executed.push(sql);
+					return Promise.resolve();
+				},
+				query: () => Promise.resolve([]),
+			};
+			const diff = generateDatabaseDiff(simpleModel, newModel);
+			const migration = generateMigrationFromDiff(diff, { from: simpleModel, to: newModel }, dialect, {
+				concurrentIndexes: true,
+				allowDestructive: true,
+			});
+			await new MigrationRunner(driver).migrate([{ id: "002_update", up: migration.statements.up }]);
+			// The first statements create the migrations and progress tables
+			return executed.slice(2);
+		};
+
+		// Each step committed on its own records the progress of the migration, which is cleared along with its record
+		const indexed = await run(Dialect.POSTGRESQL, { tables: [{ ...usersTable, indexes: [{ columns: ["email"] }] }] });
+		expect(indexed[0]).toBe('CREATE INDEX CONCURRENTLY "idx_users_email" ON "users" ("email");');
+		expect(indexed[1]).toStartWith("INSERT INTO \"_schema_migration_progress\" (id, checksum, steps) VALUES ('002_update', ");
+		expect(indexed[1]).toEndWith(", 1) ON CONFLICT (id) DO UPDATE SET steps = excluded.steps;");
+		expect(indexed[2]).toBe("BEGIN;");
+		expect(indexed.at(-3)).toStartWith('INSERT INTO "_schema_migrations"');
+		expect(indexed.slice(-2)).toEqual([`DELETE FROM "_schema_migration_progress" WHERE id = '002_update';`, "COMMIT;"]);
+
+		// SQLite rebuilds tables with foreign keys disabled around the transaction, as it ignores the pragma inside one
+		const fields = usersTable.fields.map((field) => (field.name === "email" ? { ...field, type: "number" as const } : field));
+		const rebuilt = await run(Dialect.SQLITE_MINIMAL, { tables: [{ ...usersTable, fields }] });
+		expect(rebuilt.slice(0, 2)).toEqual(["PRAGMA foreign_keys=OFF;", "BEGIN;"]);
+		expect(rebuilt.slice(-2)).toEqual(["COMMIT;", "PRAGMA foreign_keys=ON;"]);
+		expect(rebuilt.filter((sql) => sql === "BEGIN;")).toHaveLength(1);
+	});
+
+	test("MigrationRunner should resume migrations from their committed steps", async () => {
+		const executed: string[] = [];
+		const up: MigrationStatement[] = ["email", "name"].map((column) => ({
+			sql: `CREATE INDEX CONCURRENTLY "idx_users_${column}" ON "users" ("${column}");`,
+			kind: "create_index",
+			table: "users",
+			destructive: false,
+			transactional: false,
+		}));
+		const checksum = createHash("sha256")
+			.update(up.map((statement) => statement.sql).join("\n\n"))
+			.digest("hex");
+		const driver: MigrationDriver = {
+			dialect: Dialect.POSTGRESQL,
+			execute: (sql) => {
+				executed.push(sql);
+				return sql.includes("idx_users_name") ? Promise.reject(new Error("deadlock detected")) : Promise.resolve();
+			},
+			query: (sql) => Promise.resolve(sql.includes("_schema_migration_progress") ? [{ checksum, steps: 1 }] : []),
+		};
+
+		// The first index was committed by a previous run, and a failing step leaves the progress in place
+		await expect(new MigrationRunner(driver).migrate([{ id: "002_indexes", up }])).rejects.toThrow(MigrationError);
+		expect(executed.slice(2)).toEqual(['CREATE INDEX CONCURRENTLY "idx_users_name" ON "users" ("name");']);
+
+		// Migrations edited since their last run are not resumed
+		await expect(new MigrationRunner(driver).migrate([{ id: "002_indexes", up: up.slice(1) }])).rejects.toThrow(
+			"edited after being partly applied",
+		);
+	});
+
+	test("MigrationRunner should keep the error of migrations that fail to roll back", async () => {
+		const driver: MigrationDriver = {
+			dialect: Dialect.SQLITE_MINIMAL,
+			execute: (sql) => {
+				if (sql.startsWith('CREATE TABLE "posts"')) return Promise.reject(new Error("table posts already exists"));
+				if (sql === "ROLLBACK;") return Promise.reject(new Error("cannot rollback - no transaction is active"));
+				return Promise.resolve();
+			},
+			query: () => Promise.resolve([]),
+		};
+
+		const migrate = new MigrationRunner(driver).migrate([{ id: "001_posts", up: 'CREATE TABLE "posts" (id INTEGER);' }]);
+		await expect(migrate).rejects.toThrow('Migration "001_posts": table posts already exists');
+	});
+
+	// Columns of information_schema.columns, without type parameters unless given
+	const catalogColumn = (column_name: string, udt_name: string, row: Record<string, unknown> = {}) => ({
+		table_name: "memberships",
+		column_name,
+		udt_name,
+		character_maximum_length: null,
+		numeric_precision: null,
+		numeric_scale: null,
+		is_nullable: "NO",
+		column_default: null,
+		is_identity: "NO",
+		generation_expression: null,
+		...row,
+	});
+
+	// Rows of pg_policies, permissive and for every role unless given
+	const catalogPolicy = (name: string, command: string, row: Record<string, unknown> = {}) => ({
+		table_name: "memberships",
+		name,
+		permissive: "PERMISSIVE",
+		roles: ["public"],
+		command,
+		using: null,
+		with_check: null,
+		...row,
+	});
+
+	test("introspectPostgres should convert catalog rows into a data model", async () => {
+		const catalog: Record<string, unknown[]> = {
+			pg_class: [{ table_name: "memberships", row_security: true }],
+			"information_schema.columns": [
+				catalogColumn("team_id", "uuid"),
+				catalogColumn("user_id", "uuid"),
+				catalogColumn("role", "text", { column_default: "'member'::text" }),
+				catalogColumn("seats", "int4", { numeric_precision: 32, numeric_scale: 0, is_nullable: "YES", column_default: "1" }),
+				catalogColumn("joined_at", "timestamptz", { column_default: "now()" }),
+				catalogColumn("number", "int4", { is_identity: "YES" }),
+				catalogColumn("token", "uuid", { column_default: "gen_random_uuid()" }),
+				catalogColumn("owner_id", "uuid", { generation_expression: "user_id" }),
+				catalogColumn("total", "int4", { generation_expression: "(seats * 2)" }),
+			],
+			pg_index: [
+				{
+					name: "idx_memberships_role",
+					table_name: "memberships",
+					columns: ["role"],
+					unique: false,
+					method: "btree",
+					partial: false,
+				},
+			],
+			pg_constraint: [
+				{
+					name: "memberships_pkey",
+					type: "p",
+					table_name: "memberships",
+					columns: ["team_id", "user_id"],
+					referenced_table: null,
+					referenced_columns: null,
+					on_delete: " ",
+					on_update: " ",
+				},
+				{
+					name: "fk_memberships_team_id",
+					type: "f",
+					table_name: "memberships",
+					columns: ["team_id"],
+					referenced_table: "teams",
+					referenced_columns: ["id"],
+					on_delete: "c",
+					on_update: "a",
+				},
+			],
+			pg_policies: [
+				catalogPolicy("memberships_read_policy", "SELECT", { using: "true" }),
+				catalogPolicy("memberships_update_policy", "UPDATE", {
+					using: "(user_id = (current_setting('app.user_id'))::uuid)",
+				}),
+				catalogPolicy("admins_all", "ALL", { roles: ["admin"], using: "true", with_check: "true" }),
+				catalogPolicy("no_inserts", "INSERT", { permissive: "RESTRICTIVE", with_check: "false" }),
+			],
+		};
+		// Queries are answered by their main source, the index query also reads from pg_constraint so it is matched first
+		const client: PostgresClient = {
+			query: async (text) => ({ rows: Object.entries(catalog).find(([source]) => text.includes(`FROM ${source}`))?.[1] ?? [] }),
+		};
+
+		const warnings: string[] = [];
+		const model = await introspectPostgres(client, { onWarning: ({ path }) => warnings.push(path) });
+
+		expect(model.tables).toEqual([
+			{
+				name: "memberships",
+				fields: [
+					{ name: "team_id", type: "uuid", nonNullable: true, foreignKey: { table: "teams", field: "id", onDelete: "cascade" } },
+					{ name: "user_id", type: "uuid", nonNullable: true },
+					{ name: "role", type: "string", nonNullable: true, default: "member" },
+					{ name: "seats", type: "integer", default: 1 },
+					{ name: "joined_at", type: "datetime", nonNullable: true, default: { $func: { NOW: [] } } },
+					{ name: "number", type: "integer", nonNullable: true, autoIncrement: true },
+					{ name: "token", type: "uuid", nonNullable: true, autoGenerate: true },
+					{ name: "owner_id", type: "uuid", nonNullable: true, generated: { expression: { $field: "user_id" } } },
+					{ name: "total", type: "integer", nonNullable: true },
+				],
+				primaryKey: ["team_id", "user_id"],
+				indexes: [{ columns: ["role"] }],
+				policies: [
+					{ name: "memberships_read_policy", operations: ["read"], using: true },
+					{
+						name: "admins_all",
+						operations: ["read", "create", "update", "delete"],
+						roles: ["admin"],
+						using: true,
+						withCheck: true,
+					},
+					{ name: "no_inserts", operations: ["create"], restrictive: true, withCheck: false },
+				],
+			},
+		]);
+		expect(warnings).toEqual(["tables[0].fields[8].generated", "tables[0].policies"]);
+	});
+
+	test("introspectPostgres should read extended field types back", async () => {
+		// Numeric columns without a precision are the ones generated for number fields
+		const fields: DataModel["tables"][number]["fields"] = [
+			{ name: "id", type: "bigint", nonNullable: true, primaryKey: true },
+			{ name: "seats", type: "integer", nonNullable: true, default: 1 },
+			{ name: "code", type: "varchar", length: 12, nonNullable: true },
+			{ name: "price", type: "decimal", precision: 10, scale: 2, nonNullable: true },
+			{ name: "rounded", type: "decimal", precision: 8, nonNullable: true },
+			{ name: "amount", type: "number", nonNullable: true },
+			{ name: "avatar", type: "binary", nonNullable: true },
+			{ name: "opens_at", type: "time", nonNullable: true },
+			{ name: "duration", type: "interval", nonNullable: true },
+			{ name: "scores", type: "array", items: "integer", nonNullable: true },
+			{ name: "tags", type: "array", nonNullable: true },
+			{ name: "role", type: "enum", enum: "membership_role", nonNullable: true },
+		];
+		const catalog: Record<string, unknown[]> = {
+			pg_class: [{ table_name: "memberships", row_security: false }],
+			pg_enum: [{ name: "membership_role", values: ["member", "owner"] }],
+			"information_schema.columns": [
+				catalogColumn("id", "int8", { numeric_precision: 64, numeric_scale: 0 }),
+				catalogColumn("seats", "int4", { numeric_precision: 32, numeric_scale: 0, column_default: "1" }),
+				catalogColumn("code", "varchar", { character_maximum_length: 12 }),
+				catalogColumn("price", "numeric", { numeric_precision: 10, numeric_scale: 2 }),
+				catalogColumn("rounded", "numeric", { numeric_precision: 8, numeric_scale: 0 }),
+				catalogColumn("amount", "numeric"),
+				catalogColumn("avatar", "bytea"),
+				catalogColumn("opens_at", "time"),
+				catalogColumn("duration", "interval"),
+				catalogColumn("scores", "_int4"),
+				catalogColumn("tags", "_text"),
+				catalogColumn("role", "membership_role"),
+			],
+			pg_constraint: [
+				{
+					name: "memberships_pkey",
+					type: "p",
+					table_name: "memberships",
+					columns: ["id"],
+					referenced_table: null,
+					referenced_columns: null,
+					on_delete: " ",
+					on_update: " ",
+				},
+			],
+		};
+		const client: PostgresClient = {
+			query: async (text) => ({ rows: Object.entries(catalog).find(([source]) => text.includes(`FROM ${source}`))?.[1] ?? [] }),
+		};
+
+		const model = await introspectPostgres(client);
+
+		expect(model.tables[0]?.fields).toEqual(fields);
+		expect(model.enums).toEqual([{ name: "membership_role", values: ["member", "owner"] }]);
+	});
+
+	test("summarizeDatabaseDiff should describe each change on its own line", () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const newModel: DataModel = {
+			tables: [
+				{ ...usersTable, fields: [...usersTable.fields, { name: "age", type: "number" }], indexes: [{ columns: ["email"] }] },
+				{ name: "teams", fields: [{ name: "id", type: "uuid", primaryKey: true }], accessControl: usersTable.accessControl },
+			],
+		};
+
+		expect(summarizeDatabaseDiff(generateDatabaseDiff(simpleModel, newModel))).toEqual([
+			'+ table "teams"',
+			'~ table "users"',
+			'  + field "age" number',
+			'  + index "idx_users_email"',
+		]);
+		expect(summarizeDatabaseDiff(generateDatabaseDiff(newModel, simpleModel)).at(-1)).toStartWith("! drop_table:teams: ");
+	});
+
+	test("the main entry point should not depend on Node built-ins", () => {
+		const modules = new Set<string>();
+		const visit = (file: string) => {
+			if (modules.has(file)) return;
+			modules.add(file);
+			const source = readFileSync(join(import.meta.dir, "../src", `${file}.ts`), "utf8");
+			for (const [, specifier = ""] of source.matchAll(MODULE_SPECIFIER)) {
+				expect(`${file} imports ${specifier}`).not.toContain("node:");
+				if (specifier.startsWith("./")) visit(specifier.slice(2));
+			}
+		};
+
+		visit("index");
+		expect(modules).not.toContain("file-snapshot-store");
+		// Checksums and snapshot hashes are the same as before the hash was implemented without node:crypto
+		expect(hashDataModel({ tables: [] })).toBe(createHash("sha256").update('{"tables":[]}').digest("hex"));
+	});
+
+	test("generateNextMigration should migrate from the latest snapshot and detect branches", async () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const directory = mkdtempSync(join(tmpdir(), "json-to-sql-migration-"));
+		const store = createFileSnapshotStore(directory);
+		const withField = (name: string): DataModel => ({
+			tables: [{ ...usersTable, fields: [...usersTable.fields, { name, type: "string" }] }],
+		});
+		const getSnapshotError = (snapshots: ModelSnapshot[]) => {
+			try {
+				getLatestSnapshot(snapshots);
+				throw new Error("Expected a SnapshotError");
+			} catch (error) {
+				if (!(error instanceof SnapshotError)) throw error;
+				return error;
+			}
+		};
+
+		try {
+			const initial = await generateNextMigration(store, "001_initial", simpleModel, Dialect.POSTGRESQL);
+			expect(initial?.snapshot).toMatchObject({ parentId: null, parentHash: null, hash: hashDataModel(simpleModel) });
+			expect(initial?.migration.up).toContain('CREATE TABLE "users"');
+			expect(await generateNextMigration(store, "002_unchanged", simpleModel, Dialect.POSTGRESQL)).toBeUndefined();
+
+			const next = await generateNextMigration(store, "002_name", withField("name"), Dialect.POSTGRESQL);
+			expect(next?.snapshot).toMatchObject({ parentId: "001_initial", parentHash: hashDataModel(simpleModel) });
+			expect(next?.migration.up).toContain('ALTER TABLE "users" ADD COLUMN "name" TEXT;');
+			expect(readdirSync(directory)).toContain("002_name.snapshot.json");
+			expect(getLatestSnapshot(await store.list())?.id).toBe("002_name");
+
+			// Another branch generated its migration from the same snapshot
+			const snapshots = await store.list();
+			const [initialSnapshot, nameSnapshot] = snapshots;
+			if (!initialSnapshot || !nameSnapshot) throw new Error("Snapshots not found");
+
+			const branch = { ...nameSnapshot, id: "002_title", hash: hashDataModel(withField("title")), model: withField("title") };
+			const conflict = getSnapshotError([...snapshots, branch]);
+			expect(conflict.reason).toBe("conflict");
+			expect(conflict.snapshotIds).toEqual(["002_name", "002_title"]);
+
+			expect(getSnapshotError([initialSnapshot, { ...branch, hash: "edited" }]).reason).toBe("hash_mismatch");
+			expect(getSnapshotError([nameSnapshot]).reason).toBe("missing_parent");
+			await expect(generateNextMigration(store, "002_name", withField("title"), Dialect.POSTGRESQL)).rejects.toThrow(
+				'Snapshot "002_name": already exists',
+			);
+		} finally {
+			rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test("runCli should snapshot the model and generate migrations from it", async () => {
+		const usersTable = simpleModel.tables[0];
+		if (!usersTable) throw new Error("Users table not found");
+
+		const cwd = mkdtempSync(join(tmpdir(), "json-to-sql-migration-"));
+		const output: string[] = [];
+		const errors: string[] = [];
+		const run = (...args: string[]) =>
+			runCli(args, {
+				cwd,
+				stdout: (line) => output.push(line),
+				stderr: (line) => errors.push(line),
+				now: () => new Date(Date.UTC(2024, 0, 1)),
+			});
+		const writeModel = (model: DataModel) => writeFileSync(join(cwd, "model.json"), JSON.stringify(model));
+
+		try {
+			writeModel(simpleModel);
+			expect(await run("validate", "model.json")).toBe(0);
+			expect(await run("init", "model.json")).toBe(0);
+			expect(readdirSync(join(cwd, "migrations")).sort()).toEqual([
+				"20240101000000_initial.down.sql",
+				"20240101000000_initial.snapshot.json",
+				"20240101000000_initial.up.sql",
+			]);
+			expect(await run("init", "model.json")).toBe(1);
+
+			output.length = 0;
+			expect(await run("generate", "model.json")).toBe(0);
+			expect(output).toEqual(["No changes"]);
+
+			writeModel({ tables: [{ ...usersTable, fields: [...usersTable.fields, { name: "age", type: "number" }] }] });
+			output.length = 0;
+			expect(await run("status", "model.json")).toBe(0);
+			expect(output).toEqual([
+				"Migrations:\n  20240101000000_initial",
+				'Changes not migrated yet:\n  ~ table "users"\n    + field "age" number',
+			]);
+
+			expect(await run("generate", "model.json", "--name", "Add age")).toBe(0);
+			expect(existsSync(join(cwd, "migrations", "20240101000000_add_age.up.sql"))).toBe(true);
+			output.length = 0;
+			expect(await run("status", "model.json")).toBe(0);
+			expect(output.at(-1)).toBe("Up to date");
+
+			writeModel({ tables: [] });
+			expect(await run("generate", "model.json")).toBe(1);
+			expect(errors.at(-1)).toContain("drop_table:users");
+			expect(await run("generate", "model.json", "--acknowledge", "drop_table:users")).toBe(0);
+
+			expect(await run("generate", "model.json", "--dialect", "mysql")).toBe(1);
+			expect(errors.at(-1)).toStartWith('Unknown dialect "mysql"');
+		} finally {
+			rmSync(cwd, { recursive: true, force: true });
+		}
 	});
 });